@@ -4,6 +4,27 @@ import React, {
   useRef,
   useState,
 } from 'react';
+import {
+  type FaceDetectorLike,
+  QualityChecklist,
+  useQualityChecks,
+} from './qualityChecks';
+import {
+  DEFAULT_RECORDING_SCRIPT,
+  type RecordingSegment,
+  ScriptProgress,
+  type SegmentTimestamp,
+  getScriptDuration,
+  useRecordingScript,
+} from './recordingScript';
+import { type RecordingTake, TakeReview, useTakes } from './takeReview';
+import {
+  Teleprompter,
+  TeleprompterControls,
+  type TeleprompterState,
+  useTeleprompter,
+} from './teleprompter';
+import { UploadStatusPanel, useResumableUpload } from './uploadStatus';
 
 /**
  * Custom hook to request media permissions for audio and video.
@@ -197,7 +218,20 @@ const VideoPreview: React.FC<{
   isRecording: boolean;
   recordingTime: number;
   countdownValue: number | null;
-}> = ({ stream, isRecording, recordingTime, countdownValue }) => {
+  segment?: RecordingSegment | null;
+  segmentTimeLeft?: number;
+  nextSegment?: RecordingSegment | null;
+  teleprompter?: TeleprompterState;
+}> = ({
+  stream,
+  isRecording,
+  recordingTime,
+  countdownValue,
+  segment,
+  segmentTimeLeft,
+  nextSegment,
+  teleprompter,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
 
   useEffect(() => {
@@ -260,6 +294,31 @@ const VideoPreview: React.FC<{
           Recording: {recordingTime}s
         </div>
       )}
+      {teleprompter && <Teleprompter teleprompter={teleprompter} />}
+      {isRecording && segment && (
+        <div
+          aria-live="polite"
+          style={{
+            position: 'absolute',
+            left: '1rem',
+            right: '1rem',
+            bottom: '1rem',
+            borderRadius: '0.25rem',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+            padding: '0.5rem',
+            color: 'white',
+          }}
+        >
+          <strong>
+            {segment.title}: {segmentTimeLeft}s left
+          </strong>
+          <div>
+            {nextSegment
+              ? `Up next: ${nextSegment.title}. ${nextSegment.prompt}`
+              : segment.prompt}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -365,8 +424,33 @@ const findBestResolution = async (deviceId: string) => {
 };
 
 interface ReplicaRecordingProps {
-  onSubmit?: (blob: Blob) => void;
+  /**
+   * Receives the take the user chose after reviewing their recordings.
+   * When recording a script, `segments` tells where each of its segments
+   * sits in the video.
+   */
+  onSubmit?: (blob: Blob, segments: SegmentTimestamp[]) => void;
   minimumRecordTime?: number;
+  /**
+   * Segments to record in one take, advancing from one to the next
+   * automatically. Without a script the recording is free-form.
+   */
+  script?: RecordingSegment[];
+  /**
+   * Text for the teleprompter in a free-form recording. Scripted takes
+   * show the current segment's `script` instead.
+   */
+  teleprompterText?: string;
+  /**
+   * Finds faces for the framing check. Defaults to the browser's
+   * `FaceDetector` where there is one.
+   */
+  faceDetector?: FaceDetectorLike;
+  /**
+   * Keeps recording from starting until the quality checks have run and
+   * none of them fails.
+   */
+  requireQualityChecks?: boolean;
 }
 
 /**
@@ -634,6 +718,10 @@ const useMediaStream = ({
 export const ReplicaRecording: React.FC<ReplicaRecordingProps> = ({
   onSubmit,
   minimumRecordTime = 5,
+  script,
+  teleprompterText,
+  faceDetector,
+  requireQualityChecks = false,
 }) => {
   const hasPermission = useMediaPermissions();
 
@@ -653,12 +741,28 @@ export const ReplicaRecording: React.FC<ReplicaRecordingProps> = ({
     selectedAudioDevice,
   });
 
+  // Keep every take for review instead of submitting it straight away
+  const { takes, addTake, removeTake } = useTakes();
+  const [reviewTakeId, setReviewTakeId] = useState<string | null>(null);
+  const [submittedTakeId, setSubmittedTakeId] = useState<string | null>(
+    null
+  );
+  const reviewTake = takes.find((take) => take.id === reviewTakeId);
+
   // Handle recording logic
+  const segmentTimestampsRef = useRef<SegmentTimestamp[]>([]);
+  const recordingStartedAtRef = useRef(0);
   const onRecordingComplete = useCallback(
     (blob: Blob) => {
-      onSubmit?.(blob);
+      const take = addTake({
+        blob,
+        segments: segmentTimestampsRef.current,
+        duration: (performance.now() - recordingStartedAtRef.current) / 1000,
+        resolution: resolution?.label ?? null,
+      });
+      setReviewTakeId(take.id);
     },
-    [onSubmit]
+    [addTake, resolution]
   );
 
   const {
@@ -669,8 +773,42 @@ export const ReplicaRecording: React.FC<ReplicaRecordingProps> = ({
     cancelRecording,
   } = useMediaRecorder({ stream, onRecordingComplete });
 
+  // Step through the script, stopping once its last segment is recorded
+  const onScriptComplete = useCallback(
+    (timestamps: SegmentTimestamp[]) => {
+      segmentTimestampsRef.current = timestamps;
+      stopRecording();
+    },
+    [stopRecording]
+  );
+
+  const { segmentIndex, segment, segmentTimeLeft, nextSegment } =
+    useRecordingScript({ script, isRecording, onComplete: onScriptComplete });
+
+  const teleprompter = useTeleprompter({
+    text: script ? segment?.script : teleprompterText,
+    isRecording,
+    recordingTime,
+  });
+
+  const handleRecordingStart = useCallback(() => {
+    segmentTimestampsRef.current = [];
+    recordingStartedAtRef.current = performance.now();
+    startRecording();
+  }, [startRecording]);
+
+  // Check lighting, framing and audio while the user gets ready
+  const { checks, hasResults, hasFailedChecks } = useQualityChecks({
+    stream,
+    enabled: !isRecording && !reviewTake,
+    faceDetector,
+  });
+
   // Handle countdown
-  const { countdownValue, startCountdown } = useCountdown(3, startRecording);
+  const { countdownValue, startCountdown } = useCountdown(
+    3,
+    handleRecordingStart
+  );
 
   // Function to start the countdown and then start recording
   const handleStart = useCallback(() => {
@@ -685,6 +823,40 @@ export const ReplicaRecording: React.FC<ReplicaRecordingProps> = ({
     }
   }, [hasPermission]);
 
+  const handleSubmitTake = useCallback(
+    (take: RecordingTake) => {
+      setSubmittedTakeId(take.id);
+      onSubmit?.(take.blob, take.segments);
+    },
+    [onSubmit]
+  );
+
+  const handleDeleteTake = useCallback(
+    (id: string) => {
+      removeTake(id);
+      // Move on to another take, or back to recording if none are left
+      const remaining = takes.filter((take) => take.id !== id);
+      setReviewTakeId(remaining[remaining.length - 1]?.id ?? null);
+    },
+    [removeTake, takes]
+  );
+
+  if (reviewTake) {
+    return (
+      <div style={{ maxWidth: '600px', margin: '0 auto' }}>
+        <TakeReview
+          takes={takes}
+          take={reviewTake}
+          isSubmitted={reviewTake.id === submittedTakeId}
+          onSelect={setReviewTakeId}
+          onRetake={() => setReviewTakeId(null)}
+          onDelete={handleDeleteTake}
+          onSubmit={handleSubmitTake}
+        />
+      </div>
+    );
+  }
+
   return (
     <div style={{ maxWidth: '600px', margin: '0 auto' }}>
       <VideoPreview
@@ -692,7 +864,19 @@ export const ReplicaRecording: React.FC<ReplicaRecordingProps> = ({
         isRecording={isRecording}
         recordingTime={recordingTime}
         countdownValue={countdownValue}
+        segment={segment}
+        segmentTimeLeft={segmentTimeLeft}
+        nextSegment={nextSegment}
+        teleprompter={teleprompter}
       />
+      <TeleprompterControls teleprompter={teleprompter} />
+      {script && (
+        <ScriptProgress
+          script={script}
+          segmentIndex={segmentIndex}
+          isRecording={isRecording}
+        />
+      )}
       {resolution && (
         <div style={{ display: 'flex', gap: '1rem' }}>
           <p>Resolution: {resolution.label}</p>
@@ -713,32 +897,87 @@ export const ReplicaRecording: React.FC<ReplicaRecordingProps> = ({
           label="Select Audio Device"
         />
       </div>
+      {!isRecording && <QualityChecklist checks={checks} />}
       <RecordingControls
         isRecording={isRecording}
         onStart={handleStart}
         onStop={stopRecording}
         onCancel={cancelRecording}
-        isDisabled={isLowResolution}
+        isDisabled={
+          isLowResolution ||
+          // Checks that haven't reported yet can't have passed either
+          (requireQualityChecks && (!hasResults || hasFailedChecks))
+        }
         recordingTime={recordingTime}
-        minimumRecordTime={minimumRecordTime}
+        // A scripted take stops by itself once every segment is recorded
+        minimumRecordTime={
+          script ? getScriptDuration(script) : minimumRecordTime
+        }
       />
+      {!isRecording && takes.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setReviewTakeId(takes[takes.length - 1].id)}
+          style={{ marginTop: '0.5rem' }}
+        >
+          Review Takes ({takes.length})
+        </button>
+      )}
     </div>
   );
 };
 
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Endpoint that starts resumable uploads. During development it defaults
+ * to the stand-in served by the Vite dev server; without one, recordings
+ * are downloaded instead.
+ */
+const UPLOAD_ENDPOINT =
+  import.meta.env.VITE_UPLOAD_ENDPOINT ??
+  (import.meta.env.DEV ? '/uploads' : undefined);
+
 export const App = () => {
-  const handleSubmit = (blob: Blob) => {
+  const upload = useResumableUpload();
+
+  const handleSubmit = (blob: Blob, segments: SegmentTimestamp[]) => {
+    if (UPLOAD_ENDPOINT) {
+      // Segment timestamps travel with the upload for the training pipeline
+      upload.start(blob, { endpoint: UPLOAD_ENDPOINT, metadata: { segments } });
+      return;
+    }
+
     const ext = blob.type.split('/')[1];
-    const fileName = `${Date.now()}test-video.${ext}`;
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName;
-    a.click();
-
-    URL.revokeObjectURL(url);
+    const baseName = `${Date.now()}test-video`;
+    downloadBlob(blob, `${baseName}.${ext}`);
+    downloadBlob(
+      new Blob([JSON.stringify(segments, null, 2)], {
+        type: 'application/json',
+      }),
+      `${baseName}-segments.json`
+    );
   };
 
-  return <ReplicaRecording onSubmit={handleSubmit} />;
+  return (
+    <>
+      <ReplicaRecording
+        onSubmit={handleSubmit}
+        script={DEFAULT_RECORDING_SCRIPT}
+        requireQualityChecks
+      />
+      <div style={{ maxWidth: '600px', margin: '0 auto' }}>
+        <UploadStatusPanel upload={upload} />
+      </div>
+    </>
+  );
 };
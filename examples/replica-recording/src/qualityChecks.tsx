@@ -0,0 +1,449 @@
+import type React from "react";
+import { useEffect, useMemo, useState } from "react";
+
+export type QualityStatus = "pass" | "warn" | "fail";
+
+export interface QualityCheck {
+  id: "brightness" | "contrast" | "framing" | "noise" | "clipping";
+  label: string;
+  status: QualityStatus;
+  message: string;
+}
+
+/**
+ * A face found in a video frame, in the frame's pixels.
+ */
+export interface DetectedFace {
+  boundingBox: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Anything that can find faces in a video element. The browser's
+ * `FaceDetector` fits this shape, and so can a wrapper around a library
+ * for browsers that don't ship one.
+ */
+export interface FaceDetectorLike {
+  detect: (image: HTMLVideoElement) => Promise<DetectedFace[]>;
+}
+
+// How often the checks are updated
+const CHECK_INTERVAL_MS = 500;
+// Frames are scaled down to this size before measuring their brightness
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+// Aspect ratio of `VideoPreview`, which crops the video to fill it
+const PREVIEW_ASPECT_RATIO = 16 / 9;
+// The noise floor is the quietest 10% of the last ~3 seconds of audio
+const NOISE_WINDOW_FRAMES = 180;
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const SILENCE_DB = -100;
+// Sample peaks at or above these count as clipping or close to it
+const CLIPPING_PEAK = 0.99;
+const NEAR_CLIPPING_PEAK = 0.89; // about -1 dBFS
+// How long a clipped peak keeps its check failing, in milliseconds
+const CLIPPING_HOLD_MS = 3000;
+
+const VIDEO_CHECK_IDS: QualityCheck["id"][] = [
+  "brightness",
+  "contrast",
+  "framing",
+];
+const AUDIO_CHECK_IDS: QualityCheck["id"][] = ["noise", "clipping"];
+
+const createCheck =
+  (id: QualityCheck["id"], label: string) =>
+  (status: QualityStatus, message: string): QualityCheck => ({
+    id,
+    label,
+    status,
+    message,
+  });
+
+/**
+ * Mean luminance of an RGBA image and its standard deviation, both from
+ * 0 to 1.
+ */
+export const getLuminanceStats = (data: Uint8ClampedArray) => {
+  const pixelCount = data.length / 4;
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance =
+      (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+    sum += luminance;
+    sumOfSquares += luminance * luminance;
+  }
+  const brightness = sum / pixelCount;
+  const variance = sumOfSquares / pixelCount - brightness * brightness;
+  return { brightness, contrast: Math.sqrt(Math.max(0, variance)) };
+};
+
+export const checkBrightness = (brightness: number) => {
+  const check = createCheck("brightness", "Lighting");
+  if (brightness < 0.2) {
+    return check("fail", "Too dark. Add light in front of you.");
+  }
+  if (brightness > 0.85) {
+    return check("fail", "Overexposed. Reduce the light on you or the camera.");
+  }
+  if (brightness < 0.3) {
+    return check("warn", "A little dark. More light on your face will help.");
+  }
+  if (brightness > 0.75) {
+    return check("warn", "A little bright. Avoid direct light on the camera.");
+  }
+  return check("pass", "Well lit.");
+};
+
+export const checkContrast = (contrast: number) => {
+  const check = createCheck("contrast", "Contrast");
+  if (contrast < 0.05) {
+    return check(
+      "fail",
+      "The image is flat. Check that the camera is not covered or washed out.",
+    );
+  }
+  if (contrast < 0.09) {
+    return check(
+      "warn",
+      "Low contrast. Light yourself more than the background.",
+    );
+  }
+  return check("pass", "Good contrast.");
+};
+
+/**
+ * The circle `StaticOverlay` draws, in the pixels of a frame of the given
+ * size. The preview crops frames to 16:9, and the circle's radius is 30%
+ * of the visible height.
+ */
+export const getFramingCircle = (frameWidth: number, frameHeight: number) => {
+  const visibleHeight = Math.min(
+    frameHeight,
+    frameWidth / PREVIEW_ASPECT_RATIO,
+  );
+  return {
+    x: frameWidth / 2,
+    y: frameHeight / 2,
+    radius: visibleHeight * 0.3,
+  };
+};
+
+/**
+ * Checks that one face sits in the middle of the overlay circle and fills
+ * a good part of it. `faces` is null while detection hasn't run yet and
+ * undefined when no detector is available.
+ */
+export const checkFraming = (
+  faces: DetectedFace[] | null | undefined,
+  frameWidth: number,
+  frameHeight: number,
+) => {
+  const check = createCheck("framing", "Framing");
+  if (faces === undefined) {
+    return check(
+      "warn",
+      "This browser can't detect faces. Center your face in the circle.",
+    );
+  }
+  if (faces === null) {
+    return check("warn", "Looking for your face...");
+  }
+  if (faces.length === 0) {
+    return check("fail", "No face found. Move into the circle.");
+  }
+  if (faces.length > 1) {
+    return check(
+      "fail",
+      "More than one face found. Only you should be in the frame.",
+    );
+  }
+
+  const { x, y, width, height } = faces[0].boundingBox;
+  const circle = getFramingCircle(frameWidth, frameHeight);
+  const distance = Math.hypot(
+    x + width / 2 - circle.x,
+    y + height / 2 - circle.y,
+  );
+  const size = Math.max(width, height) / (circle.radius * 2);
+
+  if (distance > circle.radius) {
+    return check("fail", "Move your face into the circle.");
+  }
+  if (distance > circle.radius * 0.3) {
+    return check("warn", "Center your face in the circle.");
+  }
+  if (size < 0.45) {
+    return check("warn", "Move a little closer to the camera.");
+  }
+  if (size > 1.1) {
+    return check("warn", "Move a little further from the camera.");
+  }
+  return check("pass", "Face centered in the circle.");
+};
+
+export const checkNoiseFloor = (noiseFloorDb: number) => {
+  const check = createCheck("noise", "Background noise");
+  const level = `${Math.round(noiseFloorDb)} dBFS`;
+  if (noiseFloorDb > -40) {
+    return check("fail", `Too noisy (${level}). Find a quieter room.`);
+  }
+  if (noiseFloorDb > -50) {
+    return check("warn", `Some background noise (${level}).`);
+  }
+  return check("pass", `Quiet (${level}).`);
+};
+
+export const checkClipping = (isClipping: boolean, isNearClipping: boolean) => {
+  const check = createCheck("clipping", "Audio peaks");
+  if (isClipping) {
+    return check(
+      "fail",
+      "Audio is clipping. Lower the microphone gain or move back.",
+    );
+  }
+  if (isNearClipping) {
+    return check("warn", "Audio is close to clipping.");
+  }
+  return check("pass", "No clipping.");
+};
+
+/**
+ * Returns the browser's `FaceDetector`, or null if it doesn't have one.
+ */
+const getBrowserFaceDetector = (): FaceDetectorLike | null => {
+  const { FaceDetector } = window as unknown as {
+    FaceDetector?: new (options?: {
+      fastMode?: boolean;
+      maxDetectedFaces?: number;
+    }) => FaceDetectorLike;
+  };
+  return FaceDetector
+    ? new FaceDetector({ fastMode: true, maxDetectedFaces: 2 })
+    : null;
+};
+
+/**
+ * Measures the stream's audio on every animation frame, keeping its recent
+ * levels for the noise floor and when it last clipped.
+ */
+const createAudioMonitor = (stream: MediaStream) => {
+  const context = new AudioContext();
+  // Audio contexts may start suspended until the user interacts
+  const resume = () => {
+    context.resume().catch(console.error);
+  };
+  resume();
+  window.addEventListener("pointerdown", resume);
+
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const levels: number[] = [];
+  let lastClippedAt = Number.NEGATIVE_INFINITY;
+  let lastNearClippedAt = Number.NEGATIVE_INFINITY;
+  let frameId = 0;
+
+  const measure = (time: number) => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    let peak = 0;
+    for (const sample of samples) {
+      sum += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    const rms = Math.sqrt(sum / samples.length);
+    levels.push(
+      rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB,
+    );
+    if (levels.length > NOISE_WINDOW_FRAMES) levels.shift();
+    if (peak >= CLIPPING_PEAK) {
+      lastClippedAt = time;
+    } else if (peak >= NEAR_CLIPPING_PEAK) {
+      lastNearClippedAt = time;
+    }
+    frameId = requestAnimationFrame(measure);
+  };
+  frameId = requestAnimationFrame(measure);
+
+  const getChecks = () => {
+    if (context.state !== "running" || levels.length === 0) {
+      const message = "Click anywhere to start checking your microphone.";
+      return [
+        createCheck("noise", "Background noise")("warn", message),
+        createCheck("clipping", "Audio peaks")("warn", message),
+      ];
+    }
+    const sorted = [...levels].sort((a, b) => a - b);
+    const noiseFloor =
+      sorted[Math.floor(sorted.length * NOISE_FLOOR_PERCENTILE)];
+    const now = performance.now();
+    return [
+      checkNoiseFloor(noiseFloor),
+      checkClipping(
+        now - lastClippedAt < CLIPPING_HOLD_MS,
+        now - lastNearClippedAt < CLIPPING_HOLD_MS,
+      ),
+    ];
+  };
+
+  const stop = () => {
+    cancelAnimationFrame(frameId);
+    window.removeEventListener("pointerdown", resume);
+    source.disconnect();
+    context.close().catch(console.error);
+  };
+
+  return { getChecks, stop };
+};
+
+interface UseQualityChecksProps {
+  stream: MediaStream | null;
+  /** Pauses the analysis, for example while recording. */
+  enabled?: boolean;
+  /** Defaults to the browser's `FaceDetector` where there is one. */
+  faceDetector?: FaceDetectorLike;
+}
+
+/**
+ * Custom hook to analyze the stream before recording. Checks the video's
+ * lighting, contrast and framing and the audio's background noise and
+ * clipping twice a second. `hasResults` stays false until every check
+ * has reported, whenever the analysis starts over; the video checks wait
+ * for the first frame.
+ */
+export const useQualityChecks = ({
+  stream,
+  enabled = true,
+  faceDetector,
+}: UseQualityChecksProps) => {
+  const [checks, setChecks] = useState<QualityCheck[]>([]);
+  const detector = useMemo(
+    () => faceDetector ?? getBrowserFaceDetector(),
+    [faceDetector],
+  );
+
+  useEffect(() => {
+    setChecks([]);
+    if (!stream || !enabled) return;
+
+    let isMounted = true;
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    video.play().catch(console.error);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = SAMPLE_WIDTH;
+    canvas.height = SAMPLE_HEIGHT;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+
+    const audioMonitor =
+      stream.getAudioTracks().length > 0 ? createAudioMonitor(stream) : null;
+
+    let faces: DetectedFace[] | null = null;
+    let isDetecting = false;
+    // Some detectors exist but fail on every frame, e.g. without a model
+    let hasDetectorFailed = false;
+
+    const update = () => {
+      const nextChecks: QualityCheck[] = [];
+      const { videoWidth, videoHeight } = video;
+
+      if (ctx && videoWidth > 0) {
+        ctx.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+        const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+        const { brightness, contrast } = getLuminanceStats(data);
+        nextChecks.push(checkBrightness(brightness), checkContrast(contrast));
+
+        const canDetect = detector && !hasDetectorFailed;
+        if (canDetect && !isDetecting) {
+          isDetecting = true;
+          detector
+            .detect(video)
+            .then((result) => {
+              faces = result;
+            })
+            .catch((error) => {
+              console.error("Error detecting faces:", error);
+              hasDetectorFailed = true;
+            })
+            .finally(() => {
+              isDetecting = false;
+            });
+        }
+        nextChecks.push(
+          checkFraming(
+            canDetect && !hasDetectorFailed ? faces : undefined,
+            videoWidth,
+            videoHeight,
+          ),
+        );
+      }
+
+      if (audioMonitor) nextChecks.push(...audioMonitor.getChecks());
+      if (isMounted) setChecks(nextChecks);
+    };
+
+    const intervalId = window.setInterval(update, CHECK_INTERVAL_MS);
+
+    return () => {
+      isMounted = false;
+      clearInterval(intervalId);
+      audioMonitor?.stop();
+      video.srcObject = null;
+    };
+  }, [stream, enabled, detector]);
+
+  const hasFailedChecks = checks.some((check) => check.status === "fail");
+  const expectedIds =
+    stream && stream.getAudioTracks().length > 0
+      ? [...VIDEO_CHECK_IDS, ...AUDIO_CHECK_IDS]
+      : VIDEO_CHECK_IDS;
+  const hasResults = expectedIds.every((id) =>
+    checks.some((check) => check.id === id),
+  );
+
+  return { checks, hasResults, hasFailedChecks };
+};
+
+const statusStyles: Record<QualityStatus, { icon: string; color: string }> = {
+  pass: { icon: "✓", color: "#16a34a" },
+  warn: { icon: "!", color: "#d97706" },
+  fail: { icon: "✕", color: "#ef4444" },
+};
+
+/**
+ * Component listing each quality check with its status.
+ */
+export const QualityChecklist: React.FC<{ checks: QualityCheck[] }> = ({
+  checks,
+}) => (
+  <ul
+    aria-label="Recording quality checks"
+    style={{ display: "grid", gap: "0.25rem", padding: 0, listStyle: "none" }}
+  >
+    {checks.map((check) => (
+      <li key={check.id} style={{ display: "flex", gap: "0.5rem" }}>
+        <span
+          role="img"
+          aria-label={check.status}
+          style={{
+            width: "1rem",
+            fontWeight: "bold",
+            color: statusStyles[check.status].color,
+          }}
+        >
+          {statusStyles[check.status].icon}
+        </span>
+        <span>
+          <strong>{check.label}:</strong> {check.message}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
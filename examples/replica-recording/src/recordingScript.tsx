@@ -0,0 +1,175 @@
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * One step of a replica training take. Talking segments are read aloud,
+ * listening segments are recorded in silence so the replica learns how to
+ * look while the other person speaks.
+ */
+export interface RecordingSegment {
+  id: string;
+  kind: "talking" | "listening";
+  title: string;
+  /** Instruction shown over the preview while the segment runs. */
+  prompt: string;
+  /** Text to read out during the segment, if any. */
+  script?: string;
+  /** Length of the segment in seconds. */
+  duration: number;
+}
+
+/**
+ * Where a segment sits in the final video, in seconds from its start.
+ */
+export interface SegmentTimestamp {
+  id: string;
+  kind: RecordingSegment["kind"];
+  start: number;
+  end: number;
+}
+
+/**
+ * The structure Tavus asks for when training a replica: one minute of
+ * talking followed by one minute of silent listening.
+ */
+export const DEFAULT_RECORDING_SCRIPT: RecordingSegment[] = [
+  {
+    id: "talking",
+    kind: "talking",
+    title: "Talking",
+    prompt: "Read the script at a relaxed pace, looking into the camera.",
+    script:
+      "Hi, I'm recording this video to create my digital replica. I'll keep my head still, speak clearly and look straight into the camera. " +
+      "When I talk about my work, I like to explain things simply, pause between ideas and smile now and then. " +
+      "This is how I usually sound when I'm having a friendly conversation, so my replica can sound the same way. " +
+      "I'll keep going at a natural pace until the timer tells me to stop talking and start listening.",
+    duration: 60,
+  },
+  {
+    id: "listening",
+    kind: "listening",
+    title: "Listening",
+    prompt:
+      "Stay silent with your lips closed. Look at the camera and nod or smile as if listening.",
+    duration: 60,
+  },
+];
+
+/** How long before a segment ends the next one is announced, in seconds. */
+const UP_NEXT_WARNING = 5;
+const TICK_MS = 250;
+
+export const getScriptDuration = (script: RecordingSegment[]) =>
+  script.reduce((total, segment) => total + segment.duration, 0);
+
+/**
+ * Custom hook to step through a recording script while recording.
+ * Advances to the next segment when the current one runs out and calls
+ * `onComplete` with the segment timestamps once the last one ends.
+ * Pass a stable `script` array, since a new one restarts the script.
+ */
+export const useRecordingScript = ({
+  script,
+  isRecording,
+  onComplete,
+}: {
+  script: RecordingSegment[] | undefined;
+  isRecording: boolean;
+  onComplete: (timestamps: SegmentTimestamp[]) => void;
+}) => {
+  const [segmentIndex, setSegmentIndex] = useState(0);
+  const [segmentTime, setSegmentTime] = useState(0);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  useEffect(() => {
+    setSegmentIndex(0);
+    setSegmentTime(0);
+    if (!isRecording || !script?.length) return;
+
+    const startedAt = performance.now();
+    const timestamps: SegmentTimestamp[] = [];
+    let index = 0;
+    let segmentStart = 0;
+
+    const intervalId = window.setInterval(() => {
+      const elapsed = (performance.now() - startedAt) / 1000;
+      // Segments end on their scheduled time, so a late tick doesn't shift them
+      while (
+        index < script.length &&
+        elapsed - segmentStart >= script[index].duration
+      ) {
+        const { id, kind, duration } = script[index];
+        timestamps.push({
+          id,
+          kind,
+          start: segmentStart,
+          end: segmentStart + duration,
+        });
+        segmentStart += duration;
+        index++;
+      }
+      if (index >= script.length) {
+        clearInterval(intervalId);
+        onCompleteRef.current(timestamps);
+        return;
+      }
+      setSegmentIndex(index);
+      setSegmentTime(elapsed - segmentStart);
+    }, TICK_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isRecording, script]);
+
+  const segment = script?.[segmentIndex] ?? null;
+  const segmentTimeLeft = segment
+    ? Math.max(0, Math.ceil(segment.duration - segmentTime))
+    : 0;
+  const nextSegment =
+    segment && segmentTimeLeft <= UP_NEXT_WARNING
+      ? script?.[segmentIndex + 1] ?? null
+      : null;
+
+  return {
+    segmentIndex,
+    segment,
+    segmentTimeLeft,
+    nextSegment,
+  };
+};
+
+/**
+ * Component listing the script's segments, marking the ones already done
+ * and the one being recorded.
+ */
+export const ScriptProgress: React.FC<{
+  script: RecordingSegment[];
+  segmentIndex: number;
+  isRecording: boolean;
+}> = ({ script, segmentIndex, isRecording }) => (
+  <ol style={{ display: "flex", gap: "0.5rem", padding: 0, listStyle: "none" }}>
+    {script.map((segment, index) => {
+      const isCurrent = isRecording && index === segmentIndex;
+      const isDone = isRecording && index < segmentIndex;
+      return (
+        <li
+          key={segment.id}
+          aria-current={isCurrent ? "step" : undefined}
+          style={{
+            flex: segment.duration,
+            borderRadius: "0.25rem",
+            padding: "0.5rem",
+            backgroundColor: isCurrent ? "#ef4444" : "rgb(226, 232, 240)",
+            color: isCurrent ? "white" : undefined,
+            opacity: isDone ? 0.5 : 1,
+          }}
+        >
+          <strong>
+            {index + 1}. {segment.title}
+          </strong>{" "}
+          ({segment.duration}s)
+        </li>
+      );
+    })}
+  </ol>
+);
@@ -0,0 +1,182 @@
+import type React from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SegmentTimestamp } from "./recordingScript";
+
+/**
+ * A finished recording kept in memory until the user picks one to submit.
+ */
+export interface RecordingTake {
+  id: string;
+  number: number;
+  blob: Blob;
+  /** Object URL for playing the blob back, revoked with the take. */
+  url: string;
+  segments: SegmentTimestamp[];
+  /** Length of the recording in seconds. */
+  duration: number;
+  resolution: string | null;
+}
+
+export const formatDuration = (seconds: number) => {
+  const wholeSeconds = Math.round(seconds);
+  const minutes = Math.floor(wholeSeconds / 60);
+  return `${minutes}:${String(wholeSeconds % 60).padStart(2, "0")}`;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Custom hook to keep the takes recorded so far. Each take gets an object
+ * URL for playback, which is revoked when the take is removed or the
+ * component unmounts.
+ */
+export const useTakes = () => {
+  const [takes, setTakes] = useState<RecordingTake[]>([]);
+  const takesRef = useRef(takes);
+  takesRef.current = takes;
+  const nextNumberRef = useRef(1);
+
+  const addTake = useCallback(
+    (recording: Omit<RecordingTake, "id" | "number" | "url">) => {
+      const number = nextNumberRef.current++;
+      const take: RecordingTake = {
+        ...recording,
+        id: `take-${number}`,
+        number,
+        url: URL.createObjectURL(recording.blob),
+      };
+      setTakes((previous) => [...previous, take]);
+      return take;
+    },
+    [],
+  );
+
+  const removeTake = useCallback((id: string) => {
+    const take = takesRef.current.find((t) => t.id === id);
+    if (!take) return;
+    URL.revokeObjectURL(take.url);
+    setTakes((previous) => previous.filter((t) => t.id !== id));
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      for (const take of takesRef.current) {
+        URL.revokeObjectURL(take.url);
+      }
+    };
+  }, []);
+
+  return { takes, addTake, removeTake };
+};
+
+/**
+ * Component for watching the recorded takes and choosing which one to
+ * submit, or going back to record another.
+ */
+export const TakeReview: React.FC<{
+  takes: RecordingTake[];
+  take: RecordingTake;
+  isSubmitted: boolean;
+  onSelect: (id: string) => void;
+  onRetake: () => void;
+  onDelete: (id: string) => void;
+  onSubmit: (take: RecordingTake) => void;
+}> = ({ takes, take, isSubmitted, onSelect, onRetake, onDelete, onSubmit }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // MediaRecorder doesn't write the duration into WebM files, so browsers
+  // can't seek them until they've read to the end. Seeking far past the
+  // end once makes them find it.
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video || Number.isFinite(video.duration)) return;
+    video.addEventListener(
+      "timeupdate",
+      () => {
+        video.currentTime = 0;
+      },
+      { once: true },
+    );
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  };
+
+  const seekTo = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  return (
+    <div>
+      <video
+        key={take.id}
+        ref={videoRef}
+        src={take.url}
+        controls
+        playsInline
+        onLoadedMetadata={handleLoadedMetadata}
+        style={{
+          width: "100%",
+          aspectRatio: "16 / 9",
+          backgroundColor: "black",
+        }}
+      />
+      <div style={{ display: "flex", gap: "1rem" }}>
+        <p>Duration: {formatDuration(take.duration)}</p>
+        <p>Size: {formatBytes(take.blob.size)}</p>
+        {take.resolution && <p>Resolution: {take.resolution}</p>}
+      </div>
+      {take.segments.length > 0 && (
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          {take.segments.map((segment, index) => (
+            <button
+              key={segment.id}
+              type="button"
+              onClick={() => seekTo(segment.start)}
+            >
+              {index + 1}. {segment.id} ({formatDuration(segment.start)})
+            </button>
+          ))}
+        </div>
+      )}
+      <div
+        role="group"
+        aria-label="Takes"
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.5rem",
+          marginTop: "1rem",
+        }}
+      >
+        {takes.map((t) => (
+          <button
+            key={t.id}
+            type="button"
+            aria-pressed={t.id === take.id}
+            onClick={() => onSelect(t.id)}
+            style={{ fontWeight: t.id === take.id ? "bold" : undefined }}
+          >
+            Take {t.number} ({formatDuration(t.duration)})
+          </button>
+        ))}
+      </div>
+      <div style={{ marginTop: "1rem" }}>
+        <button type="button" onClick={onRetake}>
+          Retake
+        </button>
+        <button type="button" onClick={() => onDelete(take.id)}>
+          Delete Take {take.number}
+        </button>
+        <button
+          type="button"
+          onClick={() => onSubmit(take)}
+          disabled={isSubmitted}
+        >
+          {isSubmitted ? "Submitted" : `Submit Take ${take.number}`}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import type React from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const LINE_HEIGHT = 1.4;
+const VISIBLE_LINES = 3;
+const FONT_SIZE_STEP = 2;
+const MIN_FONT_SIZE = 12;
+const MAX_FONT_SIZE = 36;
+const SPEED_STEP = 2;
+const MIN_SPEED = 2;
+const MAX_SPEED = 60;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Whether a key press was meant for a form field rather than a shortcut.
+ */
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName));
+
+interface UseTeleprompterProps {
+  text: string | undefined;
+  isRecording: boolean;
+  recordingTime: number;
+  initialFontSize?: number;
+  /** Scroll speed in lines per minute. */
+  initialSpeed?: number;
+}
+
+/**
+ * Custom hook to manage the teleprompter's scroll position and settings.
+ * The text scrolls as `recordingTime` advances, except while paused, and
+ * starts over whenever the text changes. While recording, Space pauses and
+ * resumes, +/- change the font size and the up/down arrows the speed.
+ */
+export const useTeleprompter = ({
+  text,
+  isRecording,
+  recordingTime,
+  initialFontSize = 20,
+  initialSpeed = 18,
+}: UseTeleprompterProps) => {
+  // Keyed by the text it belongs to, so new text starts from the top
+  const [scroll, setScroll] = useState({ text, time: 0 });
+  const [isPaused, setIsPaused] = useState(false);
+  const [fontSize, setFontSize] = useState(initialFontSize);
+  const [speed, setSpeed] = useState(initialSpeed);
+  const lastRecordingTimeRef = useRef(recordingTime);
+  const scrollTime = scroll.text === text ? scroll.time : 0;
+
+  useEffect(() => {
+    const elapsed = recordingTime - lastRecordingTimeRef.current;
+    lastRecordingTimeRef.current = recordingTime;
+    if (recordingTime === 0) {
+      setScroll({ text, time: 0 });
+      setIsPaused(false);
+    } else if (!isPaused && elapsed > 0) {
+      setScroll((current) => ({
+        text,
+        time: (current.text === text ? current.time : 0) + elapsed,
+      }));
+    }
+  }, [recordingTime, isPaused, text]);
+
+  const togglePaused = useCallback(() => setIsPaused((paused) => !paused), []);
+
+  const changeFontSize = useCallback((direction: 1 | -1) => {
+    setFontSize((size) =>
+      clamp(size + direction * FONT_SIZE_STEP, MIN_FONT_SIZE, MAX_FONT_SIZE),
+    );
+  }, []);
+
+  const changeSpeed = useCallback((direction: 1 | -1) => {
+    setSpeed((value) =>
+      clamp(value + direction * SPEED_STEP, MIN_SPEED, MAX_SPEED),
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording || !text) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey) return;
+      if (isTypingTarget(event.target)) return;
+      switch (event.key) {
+        case " ":
+          togglePaused();
+          break;
+        case "+":
+        case "=":
+          changeFontSize(1);
+          break;
+        case "-":
+          changeFontSize(-1);
+          break;
+        case "ArrowUp":
+          changeSpeed(1);
+          break;
+        case "ArrowDown":
+          changeSpeed(-1);
+          break;
+        default:
+          return;
+      }
+      // Keeps Space from also pressing whichever button has focus
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isRecording, text, togglePaused, changeFontSize, changeSpeed]);
+
+  return {
+    text,
+    scrollTime,
+    isPaused,
+    fontSize,
+    speed,
+    togglePaused,
+    changeFontSize,
+    changeSpeed,
+  };
+};
+
+export type TeleprompterState = ReturnType<typeof useTeleprompter>;
+
+/**
+ * Component that scrolls the script across the top of the video preview,
+ * close to the camera so the user's eyes stay near the lens while reading.
+ */
+export const Teleprompter: React.FC<{ teleprompter: TeleprompterState }> = ({
+  teleprompter: { text, scrollTime, isPaused, fontSize, speed },
+}) => {
+  const [contentHeight, setContentHeight] = useState(0);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const maxOffset = Math.max(0, contentHeight - lineHeight * VISIBLE_LINES);
+
+  // Follows the content's height as its text and font size change
+  const contentRef = useCallback((content: HTMLDivElement | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    if (!content) return;
+    const observer = new ResizeObserver(() =>
+      setContentHeight(content.scrollHeight),
+    );
+    observer.observe(content);
+    observerRef.current = observer;
+  }, []);
+
+  if (!text) return null;
+
+  const offset = Math.min(maxOffset, (scrollTime * speed * lineHeight) / 60);
+
+  return (
+    <div
+      aria-label="Teleprompter"
+      style={{
+        position: "absolute",
+        left: "15%",
+        right: "15%",
+        top: "1rem",
+        height: lineHeight * VISIBLE_LINES + 16,
+        overflow: "hidden",
+        borderRadius: "0.25rem",
+        backgroundColor: "rgba(0, 0, 0, 0.6)",
+        padding: "0.5rem",
+        color: "white",
+        textAlign: "center",
+      }}
+    >
+      <div
+        ref={contentRef}
+        style={{
+          fontSize,
+          lineHeight: LINE_HEIGHT,
+          transform: `translateY(-${offset}px)`,
+          // recordingTime ticks once a second, so glide between the ticks
+          transition: "transform 1s linear",
+        }}
+      >
+        {text}
+      </div>
+      {isPaused && (
+        <div
+          style={{
+            position: "absolute",
+            right: "0.25rem",
+            bottom: "0.25rem",
+            fontSize: "0.75rem",
+          }}
+        >
+          Paused
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Component for the teleprompter's pause, font size and speed buttons.
+ */
+export const TeleprompterControls: React.FC<{
+  teleprompter: TeleprompterState;
+}> = ({
+  teleprompter: {
+    text,
+    isPaused,
+    fontSize,
+    speed,
+    togglePaused,
+    changeFontSize,
+    changeSpeed,
+  },
+}) => {
+  if (!text) return null;
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: "0.5rem",
+        marginTop: "0.5rem",
+      }}
+    >
+      <button type="button" onClick={togglePaused} title="Space">
+        {isPaused ? "Resume" : "Pause"} Teleprompter
+      </button>
+      <button
+        type="button"
+        onClick={() => changeFontSize(-1)}
+        disabled={fontSize <= MIN_FONT_SIZE}
+        title="-"
+        aria-label="Smaller text"
+      >
+        A-
+      </button>
+      <button
+        type="button"
+        onClick={() => changeFontSize(1)}
+        disabled={fontSize >= MAX_FONT_SIZE}
+        title="+"
+        aria-label="Larger text"
+      >
+        A+
+      </button>
+      <button
+        type="button"
+        onClick={() => changeSpeed(-1)}
+        disabled={speed <= MIN_SPEED}
+        title="Arrow Down"
+      >
+        Slower
+      </button>
+      <button
+        type="button"
+        onClick={() => changeSpeed(1)}
+        disabled={speed >= MAX_SPEED}
+        title="Arrow Up"
+      >
+        Faster
+      </button>
+      <span>{speed} lines/min</span>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+  createServer,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type UploadStandInOptions,
+  createUploadStandIn,
+} from "../uploadStandIn";
+import { CHUNK_ALIGNMENT, UploadError, uploadResumable } from "./upload";
+
+const BASE_PATH = "/uploads";
+
+/**
+ * Lets a test answer some requests itself before the stand-in sees them.
+ * Returning true means the request was handled.
+ */
+type Intercept = (req: IncomingMessage, res: ServerResponse) => boolean;
+
+const createBlob = (size: number) => {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) bytes[i] = i % 251;
+  return new Blob([bytes], { type: "video/webm" });
+};
+
+describe("uploadResumable", () => {
+  let outputDir: string;
+  let server: Server;
+  let endpoint: string;
+
+  const startServer = async (
+    options: UploadStandInOptions = {},
+    intercept?: Intercept,
+  ) => {
+    const handler = createUploadStandIn({
+      ...options,
+      basePath: BASE_PATH,
+      outputDir,
+    });
+    server = createServer((req, res) => {
+      // Mounted like the Vite middleware, which strips the base path
+      req.url = req.url?.slice(BASE_PATH.length) || "/";
+      if (intercept?.(req, res)) return;
+      handler(req, res).catch((error) => {
+        res.statusCode = 500;
+        res.end(String(error));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    endpoint = `http://127.0.0.1:${port}${BASE_PATH}`;
+  };
+
+  const readUpload = async (response: Response) => {
+    const { path: filePath } = await response.json();
+    return readFile(filePath);
+  };
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(path.join(tmpdir(), "uploads-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it("uploads a file in chunks", async () => {
+    await startServer();
+    const blob = createBlob(CHUNK_ALIGNMENT * 2 + 1000);
+    const progress: number[] = [];
+
+    const response = await uploadResumable(
+      blob,
+      { endpoint },
+      {
+        chunkSize: CHUNK_ALIGNMENT,
+        onProgress: ({ uploadedBytes }) => progress.push(uploadedBytes),
+      },
+    );
+
+    expect(response.status).toBe(201);
+    expect(progress).toEqual([CHUNK_ALIGNMENT, CHUNK_ALIGNMENT * 2, blob.size]);
+    expect(await readUpload(response)).toEqual(
+      Buffer.from(await blob.arrayBuffer()),
+    );
+  });
+
+  it("resumes from the stored bytes after a dropped connection", async () => {
+    // The stand-in drops the first chunk's connection after storing half
+    vi.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValue(0.99);
+    await startServer({ failureRate: 0.5 });
+    const blob = createBlob(CHUNK_ALIGNMENT * 2);
+    const progress: number[] = [];
+    const onRetry = vi.fn();
+
+    const response = await uploadResumable(
+      blob,
+      { endpoint },
+      {
+        chunkSize: CHUNK_ALIGNMENT,
+        retry: { baseDelayMs: 1 },
+        onProgress: ({ uploadedBytes }) => progress.push(uploadedBytes),
+        onRetry,
+      },
+    );
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(progress).toEqual([
+      CHUNK_ALIGNMENT / 2,
+      CHUNK_ALIGNMENT * 1.5,
+      blob.size,
+    ]);
+    expect(await readUpload(response)).toEqual(
+      Buffer.from(await blob.arrayBuffer()),
+    );
+  });
+
+  it("retries a chunk the server answered 308 without storing", async () => {
+    let isFirstChunk = true;
+    await startServer({}, (req, res) => {
+      if (req.method !== "PUT" || !isFirstChunk) return false;
+      isFirstChunk = false;
+      req.resume();
+      res.writeHead(308).end();
+      return true;
+    });
+    const blob = createBlob(CHUNK_ALIGNMENT);
+    const onRetry = vi.fn();
+
+    const response = await uploadResumable(
+      blob,
+      { endpoint },
+      { retry: { baseDelayMs: 1 }, onRetry },
+    );
+
+    expect(response.status).toBe(201);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry.mock.calls[0][1]).toMatchObject({ status: 308 });
+  });
+
+  it("gives up when 308 replies never make progress", async () => {
+    await startServer({}, (req, res) => {
+      if (req.method !== "PUT") return false;
+      req.resume();
+      res.writeHead(308).end();
+      return true;
+    });
+    const onRetry = vi.fn();
+
+    const upload = uploadResumable(
+      createBlob(1000),
+      { endpoint },
+      { retry: { retries: 2, baseDelayMs: 1 }, onRetry },
+    );
+
+    await expect(upload).rejects.toMatchObject({
+      name: "UploadError",
+      status: 308,
+    });
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    // Without Retry-After, the backoff would wait close to a minute
+    vi.spyOn(Math, "random").mockReturnValue(0.99);
+    let isFirstChunk = true;
+    await startServer({}, (req, res) => {
+      if (req.method !== "PUT" || !isFirstChunk) return false;
+      isFirstChunk = false;
+      req.resume();
+      res.writeHead(503, { "Retry-After": "1" }).end();
+      return true;
+    });
+    const onRetry = vi.fn();
+    const startedAt = Date.now();
+
+    const response = await uploadResumable(
+      createBlob(1000),
+      { endpoint },
+      { retry: { baseDelayMs: 60_000, maxDelayMs: 60_000 }, onRetry },
+    );
+
+    expect(response.status).toBe(201);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(UploadError), 1000);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+  });
+
+  it("stops at once when aborted while waiting to retry", async () => {
+    await startServer({}, (req, res) => {
+      if (req.method !== "PUT") return false;
+      req.resume();
+      res.writeHead(503, { "Retry-After": "60" }).end();
+      return true;
+    });
+    const controller = new AbortController();
+
+    const upload = uploadResumable(
+      createBlob(1000),
+      { endpoint },
+      { signal: controller.signal, onRetry: () => controller.abort() },
+    );
+
+    await expect(upload).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("stops between chunks when aborted", async () => {
+    await startServer();
+    const controller = new AbortController();
+    const progress: number[] = [];
+
+    const upload = uploadResumable(
+      createBlob(CHUNK_ALIGNMENT * 3),
+      { endpoint },
+      {
+        chunkSize: CHUNK_ALIGNMENT,
+        signal: controller.signal,
+        onProgress: ({ uploadedBytes }) => {
+          progress.push(uploadedBytes);
+          controller.abort();
+        },
+      },
+    );
+
+    await expect(upload).rejects.toMatchObject({ name: "AbortError" });
+    expect(progress).toEqual([CHUNK_ALIGNMENT]);
+  });
+
+  it("fails without retrying when the session is gone", async () => {
+    await startServer();
+    const onRetry = vi.fn();
+
+    const upload = uploadResumable(
+      createBlob(1000),
+      { uploadUrl: `${endpoint}/missing` },
+      { onRetry },
+    );
+
+    await expect(upload).rejects.toMatchObject({
+      name: "UploadError",
+      status: 404,
+    });
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Resumable uploads using the protocol of Google Cloud Storage's resumable
+ * uploads. Chunks are sent with `PUT` and a `Content-Range` header, the
+ * server answers `308` with a `Range` header for the bytes it has stored,
+ * and an empty `PUT` whose range is `*` asks it where to resume.
+ */
+
+/**
+ * Where to upload to: either a presigned session URL that accepts chunks
+ * right away, or an endpoint that starts a session when `POST`ed to and
+ * returns its URL in the `Location` header. `metadata` is sent to the
+ * endpoint as the JSON body of that request.
+ */
+export type UploadTarget =
+  | { uploadUrl: string }
+  | {
+      endpoint: string;
+      headers?: Record<string, string>;
+      metadata?: unknown;
+    };
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+export interface RetryPolicy {
+  /** Failed requests in a row before giving up. */
+  retries: number;
+  /** Base delay for the exponential backoff, in milliseconds. */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, in milliseconds. */
+  maxDelayMs: number;
+}
+
+export interface ResumableUploadOptions {
+  /** Bytes per request, a multiple of 256 KiB. */
+  chunkSize?: number;
+  /** Timeout for each request, in milliseconds. */
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+  /** Defaults to the global `fetch`; point it at a stand-in in tests. */
+  fetch?: typeof fetch;
+  /** Called with the session URL, which can resume the upload later. */
+  onSession?: (uploadUrl: string) => void;
+  /** Called whenever the server confirms more bytes. */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Called before waiting `delayMs` to retry a failed request. */
+  onRetry?: (attempt: number, error: Error, delayMs: number) => void;
+}
+
+/**
+ * Error thrown when an upload can't go on: the server rejected it, or
+ * requests kept failing after every retry. `status` is missing when the
+ * last failure was a network error.
+ */
+export class UploadError extends Error {
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = "UploadError";
+    this.status = status;
+  }
+}
+
+export const CHUNK_ALIGNMENT = 256 * 1024;
+export const DEFAULT_CHUNK_SIZE = 32 * CHUNK_ALIGNMENT; // 8 MiB
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+const isRetryableStatus = (status: number) =>
+  status === 408 || status === 429 || status >= 500;
+
+/**
+ * Bytes the server has stored, from a `Range: bytes=0-<last>` header. No
+ * header means it has nothing yet.
+ */
+export const parseStoredBytes = (range: string | null) => {
+  const match = /^bytes=0-(\d+)$/.exec(range?.trim() ?? "");
+  return match ? Number(match[1]) + 1 : 0;
+};
+
+/** Parses a `Retry-After` header given in seconds, in milliseconds. */
+const parseRetryAfter = (value: string | null) => {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) ? Math.max(0, seconds * 1000) : null;
+};
+
+/** Exponential backoff with full jitter. */
+const getRetryDelay = (attempt: number, policy: RetryPolicy) =>
+  Math.round(
+    Math.random() *
+      Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)),
+  );
+
+const getAbortReason = (signal: AbortSignal) =>
+  signal.reason ?? new DOMException("The upload was aborted", "AbortError");
+
+/**
+ * Resolves after `ms`, or rejects with the signal's reason once aborted.
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(getAbortReason(signal as AbortSignal));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Resolves once the browser is online. Requests made while offline fail
+ * straight away, so waiting for the network keeps them from using up the
+ * retries.
+ */
+const waitForNetwork = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (typeof window === "undefined" || navigator.onLine) {
+      resolve();
+      return;
+    }
+    const onOnline = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      window.removeEventListener("online", onOnline);
+      reject(getAbortReason(signal as AbortSignal));
+    };
+    window.addEventListener("online", onOnline, { once: true });
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Uploads `blob` in chunks, resuming from what the server has stored
+ * after a failed request instead of starting over. Network errors,
+ * timeouts and 408/429/5xx responses are retried with exponential
+ * backoff, honoring `Retry-After`, and the retries start over whenever
+ * the server stores more of the file.
+ *
+ * Resolves with the server's final response. Rejects with an
+ * `UploadError`, or with the signal's reason when aborted.
+ */
+export const uploadResumable = async (
+  blob: Blob,
+  target: UploadTarget,
+  {
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retry,
+    signal,
+    fetch: fetchImpl = fetch,
+    onSession,
+    onProgress,
+    onRetry,
+  }: ResumableUploadOptions = {},
+) => {
+  if (chunkSize <= 0 || chunkSize % CHUNK_ALIGNMENT !== 0) {
+    throw new RangeError(`chunkSize must be a multiple of ${CHUNK_ALIGNMENT}`);
+  }
+  const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retry };
+  const totalBytes = blob.size;
+
+  let uploadUrl = "uploadUrl" in target ? target.uploadUrl : null;
+  if (uploadUrl) onSession?.(uploadUrl);
+  let storedBytes = 0;
+  // A session made elsewhere may already hold part of the file
+  let isStatusKnown = !uploadUrl;
+  let failures = 0;
+
+  const send = async (url: string, init: RequestInit) => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timeoutId = setTimeout(() => {
+      controller.abort(
+        new DOMException(`Timed out after ${timeoutMs}ms`, "TimeoutError"),
+      );
+    }, timeoutMs);
+    try {
+      return await fetchImpl(url, { ...init, signal: controller.signal });
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  for (;;) {
+    if (signal?.aborted) throw getAbortReason(signal);
+    await waitForNetwork(signal);
+
+    let response: Response | null = null;
+    let error: UploadError;
+    try {
+      if (!uploadUrl) {
+        const { endpoint, headers, metadata } = target as Extract<
+          UploadTarget,
+          { endpoint: string }
+        >;
+        response = await send(endpoint, {
+          method: "POST",
+          headers: {
+            ...headers,
+            ...(metadata !== undefined && {
+              "Content-Type": "application/json",
+            }),
+            "X-Upload-Content-Type": blob.type,
+            "X-Upload-Content-Length": String(totalBytes),
+          },
+          body: metadata !== undefined ? JSON.stringify(metadata) : undefined,
+        });
+        const location = response.headers.get("Location");
+        if (response.ok && location) {
+          uploadUrl = new URL(location, response.url || endpoint).toString();
+          onSession?.(uploadUrl);
+          continue;
+        }
+      } else {
+        // Without a chunk to send, an empty range asks for the status
+        const end = Math.min(storedBytes + chunkSize, totalBytes);
+        const hasChunk = isStatusKnown && end > storedBytes;
+        response = await send(uploadUrl, {
+          method: "PUT",
+          headers: {
+            "Content-Range": hasChunk
+              ? `bytes ${storedBytes}-${end - 1}/${totalBytes}`
+              : `bytes */${totalBytes}`,
+          },
+          body: hasChunk ? blob.slice(storedBytes, end) : undefined,
+        });
+        if (response.ok) {
+          storedBytes = totalBytes;
+          onProgress?.({ uploadedBytes: totalBytes, totalBytes });
+          return response;
+        }
+        if (response.status === 308) {
+          const stored = Math.min(
+            totalBytes,
+            parseStoredBytes(response.headers.get("Range")),
+          );
+          const wasStatusKnown = isStatusKnown;
+          const hasProgress = stored > storedBytes;
+          if (hasProgress) failures = 0;
+          storedBytes = stored;
+          isStatusKnown = true;
+          onProgress?.({ uploadedBytes: storedBytes, totalBytes });
+          if (hasProgress || !wasStatusKnown) continue;
+        }
+      }
+      if (response.ok) {
+        throw new UploadError(
+          "The upload endpoint did not return a session URL",
+          response.status,
+        );
+      }
+      error =
+        response.status === 308
+          ? new UploadError("The server did not store the chunk", 308)
+          : new UploadError(
+              `Upload request failed with status ${response.status}`,
+              response.status,
+            );
+      if (response.status !== 308 && !isRetryableStatus(response.status)) {
+        throw error;
+      }
+    } catch (caught) {
+      if (signal?.aborted) throw getAbortReason(signal);
+      if (caught instanceof UploadError) throw caught;
+      error = new UploadError(
+        caught instanceof Error ? caught.message : "Network error",
+      );
+      response = null;
+    }
+
+    failures++;
+    if (failures > retryPolicy.retries) throw error;
+    const delayMs =
+      parseRetryAfter(response?.headers.get("Retry-After") ?? null) ??
+      getRetryDelay(failures, retryPolicy);
+    onRetry?.(failures, error, delayMs);
+    await sleep(delayMs, signal);
+    // The failed request may still have stored part of the chunk
+    if (uploadUrl) isStatusKnown = false;
+  }
+};
@@ -0,0 +1,228 @@
+import type React from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { formatBytes } from "./takeReview";
+import {
+  type ResumableUploadOptions,
+  UploadError,
+  type UploadTarget,
+  uploadResumable,
+} from "./upload";
+
+export type UploadStatus =
+  | "idle"
+  | "uploading"
+  | "retrying"
+  | "complete"
+  | "failed"
+  | "canceled";
+
+interface UploadState {
+  status: UploadStatus;
+  uploadedBytes: number;
+  totalBytes: number;
+  /** Retries of the current request so far. */
+  attempt: number;
+  error: string | null;
+}
+
+const initialState: UploadState = {
+  status: "idle",
+  uploadedBytes: 0,
+  totalBytes: 0,
+  attempt: 0,
+  error: null,
+};
+
+const isSessionGone = (error: unknown) =>
+  error instanceof UploadError &&
+  (error.status === 404 || error.status === 410);
+
+/**
+ * Custom hook to track whether the browser is online.
+ */
+const useIsOnline = () => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+/**
+ * Custom hook to run a resumable upload and follow its progress. After a
+ * failure or cancel, `retry` picks the upload up from where the server's
+ * session left off, or starts a new session when that one is gone.
+ * Starting another upload or unmounting aborts the current one.
+ */
+export const useResumableUpload = (
+  options?: Pick<ResumableUploadOptions, "chunkSize" | "timeoutMs" | "retry">,
+) => {
+  const [state, setState] = useState<UploadState>(initialState);
+  const isOnline = useIsOnline();
+  const controllerRef = useRef<AbortController | null>(null);
+  const lastUploadRef = useRef<{
+    blob: Blob;
+    target: UploadTarget;
+    /** Session to resume, once the server has started one. */
+    sessionUrl: string | null;
+  } | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const run = useCallback(
+    async (blob: Blob, target: UploadTarget, sessionUrl: string | null) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      lastUploadRef.current = { blob, target, sessionUrl };
+      setState({ ...initialState, status: "uploading", totalBytes: blob.size });
+
+      let resumeUrl = sessionUrl;
+      for (;;) {
+        try {
+          const response = await uploadResumable(
+            blob,
+            resumeUrl ? { uploadUrl: resumeUrl } : target,
+            {
+              ...optionsRef.current,
+              signal: controller.signal,
+              onSession: (uploadUrl) => {
+                // Retrying later resumes this session instead of starting over
+                lastUploadRef.current = { blob, target, sessionUrl: uploadUrl };
+              },
+              onProgress: ({ uploadedBytes }) => {
+                setState((previous) => ({
+                  ...previous,
+                  status: "uploading",
+                  uploadedBytes,
+                }));
+              },
+              onRetry: (attempt, error) => {
+                setState((previous) => ({
+                  ...previous,
+                  status: "retrying",
+                  attempt,
+                  error: error.message,
+                }));
+              },
+            },
+          );
+          setState((previous) => ({
+            ...previous,
+            status: "complete",
+            uploadedBytes: blob.size,
+            error: null,
+          }));
+          return response;
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          // The session expired or was removed, so start a new one
+          if (resumeUrl && "endpoint" in target && isSessionGone(error)) {
+            resumeUrl = null;
+            lastUploadRef.current = { blob, target, sessionUrl: null };
+            setState((previous) => ({ ...previous, uploadedBytes: 0 }));
+            continue;
+          }
+          console.error("Error uploading recording:", error);
+          setState((previous) => ({
+            ...previous,
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+          }));
+          return;
+        }
+      }
+    },
+    [],
+  );
+
+  const start = useCallback(
+    (blob: Blob, target: UploadTarget) => run(blob, target, null),
+    [run],
+  );
+
+  const retry = useCallback(() => {
+    if (lastUploadRef.current) {
+      const { blob, target, sessionUrl } = lastUploadRef.current;
+      return run(blob, target, sessionUrl);
+    }
+  }, [run]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState((previous) => ({ ...previous, status: "canceled" }));
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  return { ...state, isOnline, start, retry, cancel };
+};
+
+/**
+ * Component showing an upload's progress, with buttons to cancel it or
+ * to retry after it stopped.
+ */
+export const UploadStatusPanel: React.FC<{
+  upload: ReturnType<typeof useResumableUpload>;
+}> = ({ upload }) => {
+  const { status, uploadedBytes, totalBytes, attempt, error, isOnline } =
+    upload;
+  if (status === "idle") return null;
+
+  const isActive = status === "uploading" || status === "retrying";
+  const percent = totalBytes
+    ? Math.floor((uploadedBytes / totalBytes) * 100)
+    : 100;
+
+  let message: string;
+  if (isActive && !isOnline) {
+    message = "Waiting for the network to come back...";
+  } else if (status === "retrying") {
+    message = `Connection problem (${error}). Retrying, attempt ${attempt}...`;
+  } else if (status === "complete") {
+    message = `Uploaded ${formatBytes(totalBytes)}.`;
+  } else if (status === "failed") {
+    message = `Upload failed: ${error}`;
+  } else if (status === "canceled") {
+    message = "Upload canceled.";
+  } else {
+    message = `Uploading ${formatBytes(uploadedBytes)} of ${formatBytes(
+      totalBytes,
+    )} (${percent}%)`;
+  }
+
+  return (
+    <div style={{ marginTop: "1rem" }}>
+      <progress
+        value={uploadedBytes}
+        max={totalBytes || 1}
+        aria-label="Upload progress"
+        style={{ width: "100%" }}
+      />
+      <p aria-live="polite">{message}</p>
+      {isActive && (
+        <button type="button" onClick={upload.cancel}>
+          Cancel Upload
+        </button>
+      )}
+      {(status === "failed" || status === "canceled") && (
+        <button type="button" onClick={upload.retry}>
+          Resume Upload
+        </button>
+      )}
+    </div>
+  );
+};
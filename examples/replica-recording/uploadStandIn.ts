@@ -0,0 +1,200 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import type { Plugin } from "vite";
+
+/**
+ * Options for the local stand-in for resumable upload storage.
+ */
+export interface UploadStandInOptions {
+  /** Path the stand-in is served under. */
+  basePath?: string;
+  /** Directory finished uploads and their metadata are written to. */
+  outputDir?: string;
+  /**
+   * Share of chunk requests, from 0 to 1, that store only half of their
+   * bytes and then drop the connection, to exercise resuming.
+   */
+  failureRate?: number;
+}
+
+interface UploadSession {
+  id: string;
+  contentType: string;
+  totalBytes: number;
+  chunks: Buffer[];
+  storedBytes: number;
+}
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+const getExtension = (contentType: string) =>
+  contentType.split(";")[0].split("/")[1] || "bin";
+
+/**
+ * Creates a request handler that speaks the same resumable upload
+ * protocol as `uploadResumable`. `POST /` starts a session and returns
+ * its URL, and `PUT /<id>` stores chunks or reports what is stored.
+ * Sessions are kept in memory; finished files go to `outputDir`.
+ */
+export const createUploadStandIn = ({
+  basePath = "/uploads",
+  outputDir = "uploads",
+  failureRate = 0,
+}: UploadStandInOptions = {}) => {
+  const sessions = new Map<string, UploadSession>();
+
+  const sendStatus = (res: ServerResponse, session: UploadSession) => {
+    if (session.storedBytes === session.totalBytes) {
+      sendJson(res, 201, {
+        id: session.id,
+        size: session.totalBytes,
+        path: path.join(
+          outputDir,
+          `${session.id}.${getExtension(session.contentType)}`,
+        ),
+      });
+      return;
+    }
+    res.statusCode = 308;
+    if (session.storedBytes > 0) {
+      res.setHeader("Range", `bytes=0-${session.storedBytes - 1}`);
+    }
+    res.end();
+  };
+
+  const finish = async (session: UploadSession) => {
+    await mkdir(outputDir, { recursive: true });
+    await writeFile(
+      path.join(
+        outputDir,
+        `${session.id}.${getExtension(session.contentType)}`,
+      ),
+      Buffer.concat(session.chunks),
+    );
+    session.chunks = [];
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const id = url.pathname.replace(/^\/+/, "");
+
+    if (req.method === "POST" && !id) {
+      const totalBytes = Number(req.headers["x-upload-content-length"]);
+      if (!Number.isInteger(totalBytes) || totalBytes < 0) {
+        sendJson(res, 400, { error: "Missing X-Upload-Content-Length" });
+        return;
+      }
+      const body = await readBody(req);
+      let metadata: unknown = null;
+      try {
+        metadata = body.length > 0 ? JSON.parse(body.toString()) : null;
+      } catch {
+        sendJson(res, 400, { error: "Metadata must be JSON" });
+        return;
+      }
+      const session: UploadSession = {
+        id: randomUUID(),
+        contentType: String(
+          req.headers["x-upload-content-type"] || "application/octet-stream",
+        ),
+        totalBytes,
+        chunks: [],
+        storedBytes: 0,
+      };
+      sessions.set(session.id, session);
+      if (metadata !== null) {
+        await mkdir(outputDir, { recursive: true });
+        await writeFile(
+          path.join(outputDir, `${session.id}.json`),
+          JSON.stringify(metadata, null, 2),
+        );
+      }
+      if (totalBytes === 0) await finish(session);
+      res.statusCode = 201;
+      res.setHeader("Location", `${basePath}/${session.id}`);
+      res.end();
+      return;
+    }
+
+    if (req.method !== "PUT" || !id) {
+      sendJson(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const session = sessions.get(id);
+    if (!session) {
+      sendJson(res, 404, { error: "Upload session not found" });
+      return;
+    }
+
+    const range = /^bytes (?:(\d+)-(\d+)|\*)\/(\d+)$/.exec(
+      req.headers["content-range"] ?? "",
+    );
+    if (!range || Number(range[3]) !== session.totalBytes) {
+      sendJson(res, 400, { error: "Invalid Content-Range" });
+      return;
+    }
+
+    const body = await readBody(req);
+    // A status request, or a chunk that doesn't continue the stored bytes
+    if (range[1] === undefined || Number(range[1]) !== session.storedBytes) {
+      sendStatus(res, session);
+      return;
+    }
+    if (body.length !== Number(range[2]) - Number(range[1]) + 1) {
+      sendJson(res, 400, { error: "Body does not match Content-Range" });
+      return;
+    }
+
+    if (Math.random() < failureRate) {
+      const stored = body.subarray(0, Math.floor(body.length / 2));
+      session.chunks.push(stored);
+      session.storedBytes += stored.length;
+      req.socket.destroy();
+      return;
+    }
+
+    session.chunks.push(body);
+    session.storedBytes += body.length;
+    if (session.storedBytes === session.totalBytes) await finish(session);
+    sendStatus(res, session);
+  };
+};
+
+/**
+ * Serves `createUploadStandIn` from the Vite dev server, so the example
+ * can upload recordings without any storage set up. Set
+ * `UPLOAD_FAILURE_RATE` to make it drop connections now and then.
+ */
+export const uploadStandIn = (options: UploadStandInOptions = {}): Plugin => {
+  const basePath = options.basePath ?? "/uploads";
+  const handler = createUploadStandIn({
+    failureRate: Number(process.env.UPLOAD_FAILURE_RATE) || 0,
+    ...options,
+    basePath,
+  });
+
+  return {
+    name: "upload-stand-in",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(basePath, (req, res, next) => {
+        handler(req, res).catch(next);
+      });
+    },
+  };
+};
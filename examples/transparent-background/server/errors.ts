@@ -0,0 +1,10 @@
+/** A request the proxy rejects itself, answered with `status`. */
+export class ProxyRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ProxyRequestError";
+    this.status = status;
+  }
+}
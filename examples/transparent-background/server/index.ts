@@ -0,0 +1,63 @@
+import { createProxyServer } from "./proxyServer";
+import { DEFAULT_RATE_LIMIT } from "./rateLimiter";
+
+/*
+ * Token proxy for the example, configured from the environment:
+ *
+ *   TAVUS_API_KEY         required
+ *   ALLOWED_ORIGINS       comma-separated, defaults to the Vite dev server
+ *   PORT                  defaults to 8787
+ *   TAVUS_API_BASE_URL    upstream API, e.g. a local mock
+ *   RATE_LIMIT            requests per client per window, defaults to 10
+ *   RATE_LIMIT_WINDOW_MS  defaults to 60000
+ *   TRUST_PROXY           "true" behind a reverse proxy
+ *   TAVUS_CALLBACK_URL    sent as callback_url with every conversation
+ *   MAX_CALL_DURATION     call length limit in seconds
+ *   ENABLE_RECORDING      "true" to record conversations
+ *
+ * Run the app with VITE_TAVUS_PROXY_URL pointing here.
+ */
+
+const readNumber = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`${name} must be a positive number`);
+  }
+  return number;
+};
+
+const apiKey = process.env.TAVUS_API_KEY;
+if (!apiKey) {
+  throw new Error("TAVUS_API_KEY is required");
+}
+
+const port = readNumber("PORT", 8787);
+const allowedOrigins = (process.env.ALLOWED_ORIGINS ?? "http://localhost:5173")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const server = createProxyServer({
+  apiKey,
+  allowedOrigins,
+  tavusBaseUrl: process.env.TAVUS_API_BASE_URL || undefined,
+  rateLimit: {
+    limit: readNumber("RATE_LIMIT", DEFAULT_RATE_LIMIT.limit),
+    windowMs: readNumber("RATE_LIMIT_WINDOW_MS", DEFAULT_RATE_LIMIT.windowMs),
+  },
+  trustProxy: process.env.TRUST_PROXY === "true",
+  callbackUrl: process.env.TAVUS_CALLBACK_URL || undefined,
+  conversationProperties: {
+    max_call_duration: process.env.MAX_CALL_DURATION
+      ? readNumber("MAX_CALL_DURATION", 0)
+      : undefined,
+    enable_recording: process.env.ENABLE_RECORDING === "true" || undefined,
+  },
+});
+
+server.listen(port, () => {
+  console.log(`Tavus token proxy listening on http://localhost:${port}`);
+  console.log(`Allowed origins: ${allowedOrigins.join(", ")}`);
+});
@@ -0,0 +1,201 @@
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createProxyServer } from "./proxyServer";
+
+const ORIGIN = "http://localhost:5173";
+const RATE_LIMIT = { limit: 5, windowMs: 60_000 };
+
+type UpstreamRequest = { method?: string; url?: string; body: unknown };
+
+const listen = async (server: Server) => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const close = (server: Server) =>
+  new Promise<void>((resolve) => server.close(() => resolve()));
+
+const CONVERSATION_PATH = /^\/conversations\/([^/]+)(\/end)?$/;
+
+/**
+ * Stands in for the Tavus API and records every request it gets.
+ * `conversations` maps the account's conversation ids to their status.
+ */
+const createUpstream = () => {
+  const requests: UpstreamRequest[] = [];
+  const conversations = new Map<string, string>();
+  let nextId = 1;
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req as AsyncIterable<Buffer>) chunks.push(chunk);
+    const text = Buffer.concat(chunks).toString("utf8");
+    requests.push({
+      method: req.method,
+      url: req.url,
+      body: text ? JSON.parse(text) : null,
+    });
+    const match = CONVERSATION_PATH.exec(req.url ?? "");
+    if (req.url === "/conversations") {
+      const conversationId = `c${nextId++}`;
+      conversations.set(conversationId, "active");
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ conversation_id: conversationId }));
+    } else if (!match || !conversations.has(match[1])) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ message: "Conversation not found" }));
+    } else if (match[2]) {
+      conversations.set(match[1], "ended");
+      res.writeHead(200).end();
+    } else {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          conversation_id: match[1],
+          status: conversations.get(match[1]),
+        }),
+      );
+    }
+  });
+  return { server, requests, conversations };
+};
+
+describe("createProxyServer", () => {
+  let upstream: ReturnType<typeof createUpstream>;
+  let proxy: Server;
+  let proxyUrl: string;
+
+  const post = (path: string, body?: unknown) =>
+    fetch(`${proxyUrl}${path}`, {
+      method: "POST",
+      headers: { Origin: ORIGIN, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    upstream = createUpstream();
+    const tavusBaseUrl = await listen(upstream.server);
+    proxy = createProxyServer({
+      apiKey: "test-key",
+      allowedOrigins: [ORIGIN],
+      tavusBaseUrl,
+      rateLimit: RATE_LIMIT,
+      callbackUrl: "https://example.com/tavus-callback",
+      conversationProperties: { enable_recording: true },
+    });
+    proxyUrl = await listen(proxy);
+  });
+
+  afterEach(async () => {
+    await close(proxy);
+    await close(upstream.server);
+  });
+
+  it("rejects requests from other origins", async () => {
+    const response = await fetch(`${proxyUrl}/conversations`, {
+      method: "POST",
+      headers: {
+        Origin: "https://attacker.example",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ persona_id: "p1" }),
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get("access-control-allow-origin")).toBeNull();
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it("rate limits each client", async () => {
+    for (let i = 0; i < RATE_LIMIT.limit; i++) {
+      await post("/conversations", { persona_id: "p1" });
+    }
+
+    const response = await post("/conversations", { persona_id: "p1" });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("retry-after")).toBe("60");
+    expect(upstream.requests).toHaveLength(RATE_LIMIT.limit);
+  });
+
+  it("only forwards the options a browser may set", async () => {
+    const response = await post("/conversations", {
+      persona_id: "p1",
+      conversational_context: "Talk about the weather",
+      callback_url: "https://attacker.example/steal",
+      properties: {
+        language: "english",
+        enable_recording: false,
+        max_call_duration: 86_400,
+        apply_greenscreen: false,
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(upstream.requests).toHaveLength(1);
+    expect(upstream.requests[0].body).toEqual({
+      persona_id: "p1",
+      conversational_context: "Talk about the weather",
+      callback_url: "https://example.com/tavus-callback",
+      properties: {
+        language: "english",
+        enable_recording: true,
+        apply_greenscreen: true,
+      },
+    });
+  });
+
+  it("rejects options of the wrong type", async () => {
+    const response = await post("/conversations", { persona_id: 42 });
+
+    expect(response.status).toBe(400);
+    expect(upstream.requests).toHaveLength(0);
+  });
+
+  it("ends conversations it created", async () => {
+    const { conversation_id } = await (
+      await post("/conversations", { persona_id: "p1" })
+    ).json();
+
+    const response = await post(`/conversations/${conversation_id}/end`);
+
+    expect(response.status).toBe(204);
+    expect(upstream.requests[1]).toMatchObject({
+      method: "POST",
+      url: `/conversations/${conversation_id}/end`,
+    });
+  });
+
+  it("ends conversations created before a restart", async () => {
+    upstream.conversations.set("earlier", "active");
+
+    const response = await post("/conversations/earlier/end");
+
+    expect(response.status).toBe(204);
+    expect(upstream.requests).toMatchObject([
+      { method: "GET", url: "/conversations/earlier" },
+      { method: "POST", url: "/conversations/earlier/end" },
+    ]);
+  });
+
+  it("refuses to end conversations of other accounts", async () => {
+    const response = await post("/conversations/someone-else/end");
+
+    expect(response.status).toBe(403);
+    expect(upstream.requests).toMatchObject([
+      { method: "GET", url: "/conversations/someone-else" },
+    ]);
+  });
+
+  it("reports conversations that already ended", async () => {
+    const { conversation_id } = await (
+      await post("/conversations", { persona_id: "p1" })
+    ).json();
+    await post(`/conversations/${conversation_id}/end`);
+
+    const response = await post(`/conversations/${conversation_id}/end`);
+
+    expect(response.status).toBe(410);
+    expect(upstream.requests).toHaveLength(3);
+  });
+});
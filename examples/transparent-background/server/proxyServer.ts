@@ -0,0 +1,267 @@
+import {
+  type IncomingMessage,
+  type ServerResponse,
+  createServer,
+} from "node:http";
+import {
+  type CreateConversationOptions,
+  TavusApiError,
+  createTavusClient,
+  getConversationOptionsIssues,
+} from "../src/api";
+import { ConversationStatus, type IConversationProperties } from "../src/types";
+import { ProxyRequestError } from "./errors";
+import { type RateLimit, createRateLimiter } from "./rateLimiter";
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const END_CONVERSATION_PATH = /^\/conversations\/([^/]+)\/end$/;
+
+export type ProxyServerOptions = {
+  /** Tavus API key; it never leaves the server. */
+  apiKey: string;
+  /** Origins allowed to call the proxy, e.g. `https://example.com`. */
+  allowedOrigins: readonly string[];
+  /** Defaults to the public Tavus API; point it at a local mock in tests. */
+  tavusBaseUrl?: string;
+  /** Applied per client address across all endpoints. */
+  rateLimit?: RateLimit;
+  /** Take the client address from `X-Forwarded-For`, behind a reverse proxy. */
+  trustProxy?: boolean;
+  /** Sent as `callback_url` with every conversation the proxy creates. */
+  callbackUrl?: string;
+  /**
+   * Call limits and recording options for every conversation; the green
+   * screen is always applied.
+   */
+  conversationProperties?: IConversationProperties;
+};
+
+/** Properties a browser may choose; everything else is set by the server. */
+const BROWSER_PROPERTIES = ["language"] as const;
+
+const sendJson = (res: ServerResponse, status: number, body?: unknown) => {
+  if (body === undefined) {
+    res.writeHead(status).end();
+    return;
+  }
+  res
+    .writeHead(status, { "Content-Type": "application/json" })
+    .end(JSON.stringify(body));
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ProxyRequestError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new ProxyRequestError(400, "Request body is not valid JSON");
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown, name: string) => {
+  if (value === undefined || typeof value === "string") return value;
+  throw new ProxyRequestError(400, `${name} must be a string`);
+};
+
+/**
+ * Picks the options a browser may set from the request body, dropping
+ * anything else, such as `callback_url` or the recording flags.
+ */
+const toBrowserOptions = (
+  body: Record<string, unknown>,
+): CreateConversationOptions => {
+  const properties = isPlainObject(body.properties) ? body.properties : {};
+  return {
+    replica_id: optionalString(body.replica_id, "replica_id"),
+    persona_id: optionalString(body.persona_id, "persona_id"),
+    conversation_name: optionalString(
+      body.conversation_name,
+      "conversation_name",
+    ),
+    conversational_context: optionalString(
+      body.conversational_context,
+      "conversational_context",
+    ),
+    custom_greeting: optionalString(body.custom_greeting, "custom_greeting"),
+    properties: Object.fromEntries(
+      BROWSER_PROPERTIES.map((name) => [
+        name,
+        optionalString(properties[name], `properties.${name}`),
+      ]),
+    ),
+  };
+};
+
+/**
+ * Creates an HTTP server that holds the Tavus API key and exposes the two
+ * calls the browser needs, mirroring the Tavus paths so the app's API
+ * client can point at it:
+ *
+ * - `POST /conversations` creates a conversation from validated options
+ * - `POST /conversations/:id/end` ends one of the API key's conversations
+ *
+ * The browser only picks the replica or persona and the conversation's
+ * context; the callback URL and call properties come from the server.
+ * Requests must come from an allowed origin and are rate limited per
+ * client. Tavus API errors are passed through with their status.
+ */
+export const createProxyServer = ({
+  apiKey,
+  allowedOrigins,
+  tavusBaseUrl,
+  rateLimit,
+  trustProxy = false,
+  callbackUrl,
+  conversationProperties,
+}: ProxyServerOptions) => {
+  const origins = new Set(allowedOrigins);
+  const limiter = createRateLimiter(rateLimit);
+  const tavus = createTavusClient({ apiKey, baseUrl: tavusBaseUrl });
+  // Conversations this instance created and hasn't ended yet
+  const conversationIds = new Set<string>();
+
+  const getClientAddress = (req: IncomingMessage) => {
+    const forwardedFor = req.headers["x-forwarded-for"];
+    if (trustProxy && typeof forwardedFor === "string") {
+      return forwardedFor.split(",")[0].trim();
+    }
+    return req.socket.remoteAddress ?? "unknown";
+  };
+
+  const createConversation = async (req: IncomingMessage) => {
+    const body = await readJson(req);
+    if (!isPlainObject(body)) {
+      throw new ProxyRequestError(400, "Expected conversation options");
+    }
+    const browserOptions = toBrowserOptions(body);
+    const options: CreateConversationOptions = {
+      ...browserOptions,
+      callback_url: callbackUrl,
+      properties: {
+        ...browserOptions.properties,
+        ...conversationProperties,
+        apply_greenscreen: true,
+      },
+    };
+    const issues = getConversationOptionsIssues(options);
+    if (issues.length > 0) {
+      throw new ProxyRequestError(
+        400,
+        `Invalid conversation options: ${issues.join("; ")}`,
+      );
+    }
+    const conversation = await tavus.conversations.create(options);
+    conversationIds.add(conversation.conversation_id);
+    return conversation;
+  };
+
+  /**
+   * Makes sure the conversation belongs to the API key's account. The ids
+   * this instance created are trusted as is; any other id, e.g. one created
+   * before a restart or by another instance, is looked up with the key.
+   * Unknown ids are refused with 403 rather than 404, so the client never
+   * mistakes them for conversations that already ended.
+   */
+  const checkOwnership = async (conversationId: string) => {
+    if (conversationIds.has(conversationId)) return;
+    let status: ConversationStatus;
+    try {
+      ({ status } = await tavus.conversations.get(conversationId));
+    } catch (error) {
+      if (error instanceof TavusApiError && [400, 404].includes(error.status)) {
+        throw new ProxyRequestError(
+          403,
+          "Conversation not found for this API key",
+        );
+      }
+      throw error;
+    }
+    if (status === ConversationStatus.ENDED) {
+      throw new ProxyRequestError(410, "Conversation already ended");
+    }
+  };
+
+  const endConversation = async (conversationId: string) => {
+    await checkOwnership(conversationId);
+    await tavus.conversations.end(conversationId);
+    conversationIds.delete(conversationId);
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const endMatch = END_CONVERSATION_PATH.exec(pathname);
+    const isCreate = pathname === "/conversations";
+    if (!isCreate && !endMatch) {
+      throw new ProxyRequestError(404, "Not found");
+    }
+    if (req.method !== "POST") {
+      res.setHeader("Allow", "POST, OPTIONS");
+      throw new ProxyRequestError(405, "Method not allowed");
+    }
+
+    const { allowed, retryAfterMs } = limiter.take(getClientAddress(req));
+    if (!allowed) {
+      res.setHeader("Retry-After", Math.ceil(retryAfterMs / 1000));
+      throw new ProxyRequestError(429, "Too many requests");
+    }
+
+    if (isCreate) {
+      sendJson(res, 200, await createConversation(req));
+    } else if (endMatch) {
+      await endConversation(decodeURIComponent(endMatch[1]));
+      sendJson(res, 204);
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (!origin || !origins.has(origin)) {
+      sendJson(res, 403, { message: "Origin not allowed" });
+      return;
+    }
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Methods": "POST",
+        "Access-Control-Allow-Headers": "Content-Type",
+        "Access-Control-Max-Age": "600",
+      });
+      res.end();
+      return;
+    }
+
+    try {
+      await route(req, res);
+    } catch (error) {
+      if (error instanceof ProxyRequestError) {
+        sendJson(res, error.status, { message: error.message });
+      } else if (error instanceof TavusApiError) {
+        sendJson(res, error.status, error.body ?? { message: error.message });
+      } else {
+        console.error("Tavus proxy request failed:", error);
+        sendJson(res, 502, { message: "The Tavus API could not be reached" });
+      }
+    }
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error(error);
+      if (!res.headersSent) sendJson(res, 500);
+      else res.end();
+    });
+  });
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+const createClock = () => {
+  let time = 0;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+};
+
+describe("createRateLimiter", () => {
+  it("allows up to the limit in each window", () => {
+    const clock = createClock();
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 }, clock.now);
+
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(true);
+    expect(limiter.take("a").allowed).toBe(false);
+  });
+
+  it("tells how long until the window resets", () => {
+    const clock = createClock();
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 }, clock.now);
+
+    limiter.take("a");
+    clock.advance(300);
+
+    expect(limiter.take("a")).toEqual({ allowed: false, retryAfterMs: 700 });
+  });
+
+  it("allows requests again once the window has passed", () => {
+    const clock = createClock();
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 }, clock.now);
+
+    limiter.take("a");
+    clock.advance(1000);
+
+    expect(limiter.take("a")).toEqual({ allowed: true, retryAfterMs: 0 });
+  });
+
+  it("counts each key separately", () => {
+    const clock = createClock();
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 }, clock.now);
+
+    limiter.take("a");
+
+    expect(limiter.take("a").allowed).toBe(false);
+    expect(limiter.take("b").allowed).toBe(true);
+  });
+
+  it("doesn't extend the window with rejected requests", () => {
+    const clock = createClock();
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 }, clock.now);
+
+    limiter.take("a");
+    clock.advance(900);
+    limiter.take("a");
+    clock.advance(100);
+
+    expect(limiter.take("a").allowed).toBe(true);
+  });
+});
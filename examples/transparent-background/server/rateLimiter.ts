@@ -0,0 +1,46 @@
+export type RateLimit = {
+  /** Requests allowed per key in each window. */
+  limit: number;
+  windowMs: number;
+};
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { limit: 10, windowMs: 60_000 };
+
+type Window = { startedAt: number; count: number };
+
+/**
+ * Fixed-window rate limiter keyed by any string, e.g. a client address.
+ * `take` counts a request and tells whether it is allowed, and if not,
+ * how long until the key's window resets.
+ */
+export const createRateLimiter = (
+  { limit, windowMs }: RateLimit = DEFAULT_RATE_LIMIT,
+  now = Date.now,
+) => {
+  const windows = new Map<string, Window>();
+
+  const prune = (time: number) => {
+    for (const [key, window] of windows) {
+      if (time - window.startedAt >= windowMs) windows.delete(key);
+    }
+  };
+
+  const take = (key: string) => {
+    const time = now();
+    prune(time);
+    const window = windows.get(key) ?? { startedAt: time, count: 0 };
+    windows.set(key, window);
+    if (window.count >= limit) {
+      return {
+        allowed: false,
+        retryAfterMs: window.startedAt + windowMs - time,
+      } as const;
+    }
+    window.count++;
+    return { allowed: true, retryAfterMs: 0 } as const;
+  };
+
+  return { take };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
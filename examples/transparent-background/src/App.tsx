@@ -1,254 +1,167 @@
-import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { useEffect, useState, useMemo, useRef } from "react";
 import {
   useDaily,
-  DailyVideo,
-  useParticipantIds,
   useLocalSessionId,
   useAudioTrack,
+  useVideoTrack,
   DailyAudio,
 } from "@daily-co/daily-react";
-import { createConversation } from "./api/createConversation";
-import type { IConversation } from "./types";
-import { endConversation } from "./api";
-
-const vertexShaderSource = `
-  attribute vec2 a_position;
-  attribute vec2 a_texCoord;
-  varying vec2 v_texCoord;
-  void main() {
-    gl_Position = vec4(a_position, 0, 1);
-    v_texCoord = vec2(a_texCoord.x, 1.0 - a_texCoord.y);
-  }
-`;
-
-const fragmentShaderSource = `
-  precision mediump float;
-  uniform sampler2D u_image;
-  varying vec2 v_texCoord;
-  uniform vec3 u_keyColor;
-  uniform float u_threshold;
-  void main() {
-    vec4 color = texture2D(u_image, v_texCoord);
-    float diff = length(color.rgb - u_keyColor);
-    gl_FragColor = diff < u_threshold ? vec4(0.0) : color;
-  }
-`;
-
-const initShader = (
-  gl: WebGLRenderingContext,
-  type: number,
-  source: string,
-) => {
-  const shader = gl.createShader(type)!;
-  gl.shaderSource(shader, source);
-  gl.compileShader(shader);
-  return shader;
-};
-
-const initWebGL = (gl: WebGLRenderingContext) => {
-  const program = gl.createProgram()!;
-  gl.attachShader(
-    program,
-    initShader(gl, gl.VERTEX_SHADER, vertexShaderSource),
-  );
-  gl.attachShader(
-    program,
-    initShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource),
-  );
-  gl.linkProgram(program);
-  gl.useProgram(program);
-
-  const positionBuffer = gl.createBuffer();
-  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-  gl.bufferData(
-    gl.ARRAY_BUFFER,
-    new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
-    gl.STATIC_DRAW,
-  );
-
-  const texCoordBuffer = gl.createBuffer();
-  gl.bindBuffer(gl.ARRAY_BUFFER, texCoordBuffer);
-  gl.bufferData(
-    gl.ARRAY_BUFFER,
-    new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]),
-    gl.STATIC_DRAW,
-  );
-
-  const positionLocation = gl.getAttribLocation(program, "a_position");
-  const texCoordLocation = gl.getAttribLocation(program, "a_texCoord");
-
-  gl.enableVertexAttribArray(positionLocation);
-  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-  gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
-
-  gl.enableVertexAttribArray(texCoordLocation);
-  gl.bindBuffer(gl.ARRAY_BUFFER, texCoordBuffer);
-  gl.vertexAttribPointer(texCoordLocation, 2, gl.FLOAT, false, 0, 0);
-
-  const texture = gl.createTexture();
-  gl.bindTexture(gl.TEXTURE_2D, texture);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-
-  return {
-    program,
-    texture,
-    imageLocation: gl.getUniformLocation(program, "u_image"),
-    keyColorLocation: gl.getUniformLocation(program, "u_keyColor"),
-    thresholdLocation: gl.getUniformLocation(program, "u_threshold"),
-  };
-};
-
-export const Video: React.FC<{ id: string }> = ({ id }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [isVideoReady, setIsVideoReady] = useState(false);
-  const glRef = useRef<WebGLRenderingContext | null>(null);
-
-  const webGLContext = useMemo(() => {
-    const canvas = canvasRef.current;
-    if (canvas) {
-      const gl = canvas.getContext("webgl", {
-        premultipliedAlpha: false,
-        alpha: true,
-      });
-      if (gl) {
-        glRef.current = gl;
-        return initWebGL(gl);
+import { getConversationOptionsIssues } from "./api";
+import {
+  type DailyAudioHandle,
+  useAudioLevel,
+  useAudioVolume,
+  useConversationActions,
+  useReplicaPresence,
+  useSilentMicWarning,
+} from "./call";
+import {
+  type ConversationErrorStage,
+  type ConversationStatusName,
+  useConversation,
+} from "./conversation";
+import {
+  DEFAULT_COMPOSITING_SETTINGS,
+  useChromaKeySettings,
+} from "./chromaKey";
+import { AudioLevelMeter } from "./components/AudioLevelMeter";
+import { BackgroundControls } from "./components/BackgroundControls";
+import { Captions } from "./components/Captions";
+import { ChatBox } from "./components/ChatBox";
+import { ChromaKeyControls } from "./components/ChromaKeyControls";
+import { ConnectionQuality } from "./components/ConnectionQuality";
+import {
+  ConversationOptionsFields,
+  DEFAULT_CONVERSATION_FORM_VALUES,
+  toConversationOptions,
+} from "./components/ConversationOptionsFields";
+import { DeviceControls } from "./components/DeviceControls";
+import { FloatingWidget } from "./components/FloatingWidget";
+import { SelfView } from "./components/SelfView";
+import {
+  TranscriptExport,
+  TranscriptPanel,
+} from "./components/TranscriptPanel";
+import { Video } from "./components/Video";
+import {
+  createBackgroundColorTool,
+  createToolRegistry,
+  getCurrentTimeTool,
+  useToolCalls,
+} from "./tools";
+import { type Transcript, useTranscript } from "./transcript";
+import type { WidgetCorner } from "./widget";
+
+type CallPanel = "chromaKey" | "background" | "devices" | "transcript" | "chat";
+
+export const Call = ({
+  onLeave,
+  conversationId,
+  replicaId,
+  transcript,
+  keyColor,
+  position,
+}: {
+  onLeave: () => void;
+  conversationId: string;
+  replicaId: string | null;
+  /** Kept by the caller so it outlives the call. */
+  transcript: Transcript;
+  /** Overrides the replica's saved key color when set. */
+  keyColor?: string;
+  /** Corner the widget docks to; it keeps its saved place when unset. */
+  position?: WidgetCorner;
+}) => {
+  const [chromaKey, setChromaKey] = useChromaKeySettings(replicaId, keyColor);
+  const [compositing, setCompositing] = useState(DEFAULT_COMPOSITING_SETTINGS);
+  const [openPanel, setOpenPanel] = useState<CallPanel | null>(null);
+  const [isPickingColor, setIsPickingColor] = useState(false);
+  const [volume, setVolume] = useState(1);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [isReplicaSpeaking, setIsReplicaSpeaking] = useState(false);
+  const actions = useConversationActions({
+    conversationId,
+    onEvent: (event) => {
+      if (event.event_type === "conversation.replica.started_speaking") {
+        setIsReplicaSpeaking(true);
+      } else if (event.event_type === "conversation.replica.stopped_speaking") {
+        setIsReplicaSpeaking(false);
       }
-    }
-    return null;
-  }, [canvasRef.current]);
-
-  useEffect(() => {
-    const video = videoRef.current;
-    if (video) {
-      const checkVideoReady = () => {
-        if (video.readyState >= 2) {
-          setIsVideoReady(true);
-          video.removeEventListener("canplay", checkVideoReady);
-        }
-      };
-      video.addEventListener("canplay", checkVideoReady);
-      return () => video.removeEventListener("canplay", checkVideoReady);
-    }
-  }, []);
-
+    },
+  });
+  const toolRegistry = useMemo(() => createToolRegistry(), []);
   useEffect(() => {
-    if (!isVideoReady || !webGLContext) return;
-
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const gl = glRef.current;
-    if (!video || !canvas || !gl) return;
-
-    const {
-      program,
-      texture,
-      imageLocation,
-      keyColorLocation,
-      thresholdLocation,
-    } = webGLContext;
-
-    let animationFrameId: number;
-    let lastFrameTime = 0;
-    const targetFPS = 30;
-    const frameInterval = 1000 / targetFPS;
-
-    const applyChromaKey = (currentTime: number) => {
-      if (currentTime - lastFrameTime < frameInterval) {
-        animationFrameId = requestAnimationFrame(applyChromaKey);
-        return;
-      }
-
-      lastFrameTime = currentTime;
-
-      if (video.readyState === video.HAVE_ENOUGH_DATA) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        gl.viewport(0, 0, canvas.width, canvas.height);
-
-        gl.bindTexture(gl.TEXTURE_2D, texture);
-        gl.texImage2D(
-          gl.TEXTURE_2D,
-          0,
-          gl.RGBA,
-          gl.RGBA,
-          gl.UNSIGNED_BYTE,
-          video,
-        );
-
-        gl.uniform1i(imageLocation, 0);
-        gl.uniform3f(keyColorLocation, 3 / 255, 255 / 255, 156 / 255);
-        gl.uniform1f(thresholdLocation, 0.3);
-
-        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
-      }
-
-      animationFrameId = requestAnimationFrame(applyChromaKey);
-    };
-
-    applyChromaKey(0);
-
+    const unregisterTools = [
+      toolRegistry.register(getCurrentTimeTool),
+      toolRegistry.register(
+        createBackgroundColorTool((background) =>
+          setCompositing((current) => ({ ...current, background })),
+        ),
+      ),
+    ];
     return () => {
-      cancelAnimationFrame(animationFrameId);
-      if (gl && program && texture) {
-        gl.deleteProgram(program);
-        gl.deleteTexture(texture);
-      }
+      for (const unregister of unregisterTools) unregister();
     };
-  }, [isVideoReady, webGLContext]);
-
-  return (
-    <div
-      style={{ height: "20rem", position: "relative", aspectRatio: "16 / 9" }}
-    >
-      <DailyVideo
-        sessionId={id}
-        type="video"
-        ref={videoRef}
-        style={{ height: "13rem", display: "none" }}
-      />
-      <canvas
-        ref={canvasRef}
-        style={{
-          position: "absolute",
-          top: 0,
-          left: 0,
-          right: 0,
-          bottom: 0,
-          width: "100%",
-          height: "100%",
-        }}
-      />
-    </div>
-  );
-};
-
-export const Call = ({ onLeave }: { onLeave: () => void }) => {
-  const remoteParticipantIds = useParticipantIds({ filter: "remote" });
+  }, [toolRegistry]);
+  useToolCalls({ registry: toolRegistry, actions });
+  const audioRef = useRef<DailyAudioHandle>(null);
+  useAudioVolume(audioRef, volume);
+
+  const togglePanel = (panel: CallPanel) => {
+    setOpenPanel((current) => (current === panel ? null : panel));
+    setIsPickingColor(false);
+  };
+  const { sessionId: replicaSessionId, presence } =
+    useReplicaPresence(replicaId);
   const localParticipantId = useLocalSessionId();
   const localAudio = useAudioTrack(localParticipantId);
+  const localVideo = useVideoTrack(localParticipantId);
   const daily = useDaily();
   const isMicEnabled = !localAudio.isOff;
+  const isCameraEnabled = !localVideo.isOff;
+  const replicaAudio = useAudioTrack(replicaSessionId ?? "");
+  const userLevel = useAudioLevel(
+    isMicEnabled ? localAudio.persistentTrack : undefined,
+  );
+  const replicaLevel = useAudioLevel(replicaAudio.persistentTrack);
+  const isMicSilent = useSilentMicWarning(
+    isMicEnabled ? localAudio.persistentTrack : undefined,
+    isReplicaSpeaking || replicaLevel.isSpeaking,
+  );
 
   const toggleMicrophone = () => {
     daily?.setLocalAudio(!isMicEnabled);
   };
 
+  const toggleCamera = () => {
+    daily?.setLocalVideo(!isCameraEnabled);
+  };
+
   return (
-    <div
-      style={{
-        position: "fixed",
-        bottom: "16px",
-        right: "16px",
-      }}
-    >
+    <FloatingWidget title="Tavus replica" corner={position}>
       <div style={{ position: "relative" }}>
-        {remoteParticipantIds.length > 0 ? (
-          <Video id={remoteParticipantIds[0]} />
+        {replicaSessionId ? (
+          <Video
+            id={replicaSessionId}
+            chromaKey={chromaKey}
+            compositing={compositing}
+            isSpeaking={replicaLevel.isSpeaking}
+            onPickColor={
+              isPickingColor
+                ? (keyColor) => {
+                    setChromaKey({ keyColor });
+                    setIsPickingColor(false);
+                  }
+                : undefined
+            }
+          />
+        ) : presence === "left" ? (
+          <div className="replica-left" role="status">
+            <p>The replica has left the call.</p>
+            <button type="button" onClick={onLeave}>
+              End call
+            </button>
+          </div>
         ) : (
           <div
             style={{
@@ -277,7 +190,28 @@ export const Call = ({ onLeave }: { onLeave: () => void }) => {
             </svg>
           </div>
         )}
+        {showCaptions && <Captions entries={transcript.entries} />}
+        {isCameraEnabled && <SelfView />}
       </div>
+      <div className="audio-levels">
+        <ConnectionQuality />
+        <AudioLevelMeter
+          label="You"
+          level={userLevel.level}
+          isSpeaking={userLevel.isSpeaking}
+        />
+        <AudioLevelMeter
+          label="Replica"
+          level={replicaLevel.level}
+          isSpeaking={replicaLevel.isSpeaking}
+        />
+      </div>
+      {isMicSilent && (
+        <p role="alert" className="conversation-error">
+          Your microphone is on but we can't hear anything. Check that the right
+          microphone is selected in Devices and that it isn't muted.
+        </p>
+      )}
       <div
         style={{
           display: "flex",
@@ -298,6 +232,75 @@ export const Call = ({ onLeave }: { onLeave: () => void }) => {
         >
           {!isMicEnabled ? "Mic is Off" : "Mic is On"}
         </button>
+        <button
+          type="button"
+          onClick={toggleCamera}
+          style={{
+            padding: "0.25rem",
+          }}
+        >
+          {!isCameraEnabled ? "Camera is Off" : "Camera is On"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowCaptions((show) => !show)}
+          aria-pressed={showCaptions}
+          style={{
+            padding: "0.25rem",
+          }}
+        >
+          {showCaptions ? "Captions On" : "Captions Off"}
+        </button>
+        <button
+          type="button"
+          onClick={() => togglePanel("transcript")}
+          aria-expanded={openPanel === "transcript"}
+          style={{
+            padding: "0.25rem",
+          }}
+        >
+          Transcript
+        </button>
+        <button
+          type="button"
+          onClick={() => togglePanel("chat")}
+          aria-expanded={openPanel === "chat"}
+          style={{
+            padding: "0.25rem",
+          }}
+        >
+          Chat
+        </button>
+        <button
+          type="button"
+          onClick={() => togglePanel("devices")}
+          aria-expanded={openPanel === "devices"}
+          style={{
+            padding: "0.25rem",
+          }}
+        >
+          Devices
+        </button>
+        <button
+          type="button"
+          onClick={() => togglePanel("chromaKey")}
+          aria-expanded={openPanel === "chromaKey"}
+          style={{
+            padding: "0.25rem",
+          }}
+        >
+          Chroma Key
+        </button>
+        <button
+          type="button"
+          onClick={() => togglePanel("background")}
+          aria-expanded={openPanel === "background"}
+          style={{
+            padding: "0.25rem",
+          }}
+        >
+          Background
+        </button>
         <button
           type="button"
           onClick={onLeave}
@@ -308,38 +311,86 @@ export const Call = ({ onLeave }: { onLeave: () => void }) => {
           Leave
         </button>
       </div>
-      <DailyAudio />
-    </div>
+      {openPanel === "transcript" && (
+        <TranscriptPanel
+          transcript={transcript}
+          className="chroma-key-controls transcript"
+        />
+      )}
+      {openPanel === "chat" && (
+        <ChatBox actions={actions} isReplicaSpeaking={isReplicaSpeaking} />
+      )}
+      {openPanel === "devices" && (
+        <DeviceControls volume={volume} onVolumeChange={setVolume} />
+      )}
+      {openPanel === "chromaKey" && (
+        <ChromaKeyControls
+          settings={chromaKey}
+          onChange={setChromaKey}
+          isPicking={isPickingColor}
+          onTogglePicking={() => setIsPickingColor((picking) => !picking)}
+        />
+      )}
+      {openPanel === "background" && (
+        <BackgroundControls settings={compositing} onChange={setCompositing} />
+      )}
+      <DailyAudio ref={audioRef} />
+    </FloatingWidget>
   );
 };
 
+const statusLabels: Record<ConversationStatusName, string> = {
+  idle: "Start Video Call",
+  creating: "Creating...",
+  joining: "Joining...",
+  active: "In Call",
+  ending: "Ending...",
+  ended: "Start Video Call",
+  error: "Try Again",
+};
+
+const errorStageLabels: Record<ConversationErrorStage, string> = {
+  create: "Failed to create the conversation.",
+  join: "Failed to join the call.",
+  call: "The call failed.",
+  end: "Failed to end the conversation.",
+};
+
+// When set, requests go through the token proxy in server/ and the API key
+// never reaches the browser
+const PROXY_URL = import.meta.env.VITE_TAVUS_PROXY_URL || undefined;
+
 function App() {
   const [token, setToken] = useState("");
-  const [conversation, setConversation] = useState<IConversation | null>(null);
-  const [loading, setLoading] = useState(false);
-  const DailyCall = useDaily();
+  const [optionValues, setOptionValues] = useState(
+    DEFAULT_CONVERSATION_FORM_VALUES,
+  );
+  const { state, start, cancel, leave, isBusy } = useConversation({
+    token,
+    proxyUrl: PROXY_URL,
+  });
+  const hasCredentials = !!(token || PROXY_URL);
+  const transcript = useTranscript();
+  const hasEnded = state.status === "ended" || state.status === "error";
+  const isLoading = state.status === "creating" || state.status === "joining";
+  const isLocked = isBusy || state.status === "active";
+
+  const conversationOptions = useMemo(
+    () => toConversationOptions(optionValues),
+    [optionValues],
+  );
+  const optionIssues = useMemo(
+    () => getConversationOptionsIssues(conversationOptions),
+    [conversationOptions],
+  );
 
-  const handleStartCall = async (e: React.FormEvent<HTMLFormElement>) => {
+  const handleStartCall = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (token && DailyCall) {
-      setLoading(true);
-      try {
-        const conversation = await createConversation(token);
-        await DailyCall.join({ url: conversation.conversation_url });
-        setConversation(conversation);
-      } catch (error) {
-        alert(`Failed to join the call. ${error}`);
-      }
-      setLoading(false);
-    } else {
+    if (!hasCredentials) {
       console.error("Token is required to start the call");
+      return;
     }
-  };
-
-  const handleLeaveCall = () => {
-    DailyCall?.leave();
-    endConversation(conversation!.conversation_id, token);
-    setConversation(null);
+    start(conversationOptions);
   };
 
   const getDisplayToken = () => {
@@ -349,32 +400,70 @@ function App() {
   return (
     <main>
       <form onSubmit={handleStartCall} className="token-form">
-        <label htmlFor="token">
-          Enter your Tavus API token to start, or{" "}
-          <a
-            href="https://platform.tavus.io/api-keys"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            create a new one.
-          </a>
-        </label>
+        {PROXY_URL ? (
+          <p>Start a call through the Tavus token proxy.</p>
+        ) : (
+          <label htmlFor="token">
+            Enter your Tavus API token to start, or{" "}
+            <a
+              href="https://platform.tavus.io/api-keys"
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              create a new one.
+            </a>
+          </label>
+        )}
         <div>
-          <input
-            id="token"
-            type="text"
-            value={conversation ? getDisplayToken() : token}
-            onChange={(e) => setToken(e.target.value)}
-            placeholder="Enter token"
-            disabled={!!conversation}
-          />
-          <button disabled={!token || loading || !!conversation} type="submit">
-            {loading ? "Loading..." : "Start Video Call"}
+          {!PROXY_URL && (
+            <input
+              id="token"
+              type="text"
+              value={isLocked ? getDisplayToken() : token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="Enter token"
+              disabled={isLocked}
+            />
+          )}
+          <button
+            disabled={!hasCredentials || isLocked || optionIssues.length > 0}
+            type="submit"
+          >
+            {statusLabels[state.status]}
           </button>
+          {isLoading && (
+            <button type="button" onClick={cancel}>
+              Cancel
+            </button>
+          )}
         </div>
+        {state.status === "error" && (
+          <p role="alert" className="conversation-error">
+            {errorStageLabels[state.error.stage]} {state.error.message}
+          </p>
+        )}
+        <ConversationOptionsFields
+          values={optionValues}
+          onChange={setOptionValues}
+          issues={optionIssues}
+          disabled={isLocked}
+        />
       </form>
 
-      {conversation && <Call onLeave={handleLeaveCall} />}
+      {state.status === "active" && (
+        <Call
+          onLeave={leave}
+          conversationId={state.conversation.conversation_id}
+          replicaId={state.conversation.replica_id}
+          transcript={transcript}
+        />
+      )}
+      {hasEnded && transcript.entries.length > 0 && (
+        <div className="transcript-summary">
+          <TranscriptPanel transcript={transcript} />
+          <TranscriptExport transcript={transcript} />
+        </div>
+      )}
     </main>
   );
 }
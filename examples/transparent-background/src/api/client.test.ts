@@ -0,0 +1,175 @@
+import {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+  createServer,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { type TavusClient, createTavusClient } from "./client";
+import { TavusApiError, TavusTimeoutError } from "./errors";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+describe("createTavusClient", () => {
+  let server: Server;
+  let handler: Handler;
+  let requests: IncomingMessage[];
+  let client: TavusClient;
+
+  const catchError = (promise: Promise<unknown>) =>
+    promise.then(
+      () => {
+        throw new Error("Expected the request to fail");
+      },
+      (error: unknown) => error,
+    );
+
+  beforeEach(async () => {
+    requests = [];
+    // Stands in for the Tavus API, answering each request with `handler`
+    server = createServer((req, res) => {
+      requests.push(req);
+      req.resume();
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    client = createTavusClient({
+      apiKey: "test-key",
+      baseUrl: `http://127.0.0.1:${port}/v2/`,
+      retry: { baseDelayMs: 1 },
+    });
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("resolves with the parsed JSON body", async () => {
+    handler = (_, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ conversation_id: "c1", status: "active" }));
+    };
+
+    const conversation = await client.conversations.get("c1");
+
+    expect(conversation).toEqual({ conversation_id: "c1", status: "active" });
+    expect(requests[0].url).toBe("/v2/conversations/c1");
+    expect(requests[0].headers["x-api-key"]).toBe("test-key");
+  });
+
+  it("resolves with null for an empty body", async () => {
+    handler = (_, res) => res.writeHead(200).end();
+
+    await expect(client.conversations.end("c1")).resolves.toBeNull();
+    expect(requests[0].method).toBe("POST");
+  });
+
+  it("leaves out undefined query parameters", async () => {
+    handler = (_, res) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ data: [], total_count: 0 }));
+    };
+
+    await client.replicas.list({ limit: 10, page: undefined, verbose: true });
+
+    expect(requests[0].url).toBe("/v2/replicas?limit=10&verbose=true");
+  });
+
+  it("rejects with the status, body and request id of an error", async () => {
+    handler = (_, res) => {
+      res.writeHead(404, {
+        "Content-Type": "application/json",
+        "x-request-id": "req-1",
+      });
+      res.end(JSON.stringify({ message: "Conversation not found" }));
+    };
+
+    const error = await catchError(client.conversations.get("missing"));
+
+    expect(error).toBeInstanceOf(TavusApiError);
+    expect(error).toMatchObject({
+      status: 404,
+      body: { message: "Conversation not found" },
+      requestId: "req-1",
+      method: "GET",
+      path: "/conversations/missing",
+      message:
+        "Tavus API GET /conversations/missing failed with status 404: Conversation not found",
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("keeps a body that isn't JSON as text", async () => {
+    handler = (_, res) => res.writeHead(400).end("Bad request");
+
+    const error = await catchError(client.personas.get("p1"));
+
+    expect(error).toMatchObject({
+      status: 400,
+      body: "Bad request",
+      requestId: null,
+      message: "Tavus API GET /personas/p1 failed with status 400: Bad request",
+    });
+  });
+
+  it("rejects with a null body when the error has none", async () => {
+    handler = (_, res) => res.writeHead(401).end();
+
+    const error = await catchError(client.personas.get("p1"));
+
+    expect(error).toMatchObject({
+      status: 401,
+      body: null,
+      message: "Tavus API GET /personas/p1 failed with status 401",
+    });
+  });
+
+  it("retries idempotent calls on server errors", async () => {
+    handler = (_, res) => {
+      if (requests.length < 3) {
+        res.writeHead(503).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ replica_id: "r1" }));
+    };
+
+    await expect(client.replicas.get("r1")).resolves.toEqual({
+      replica_id: "r1",
+    });
+    expect(requests).toHaveLength(3);
+  });
+
+  it("doesn't retry creating a resource", async () => {
+    handler = (_, res) => res.writeHead(503).end();
+
+    const error = await catchError(
+      client.conversations.create({ persona_id: "p1" }),
+    );
+
+    expect(error).toMatchObject({ status: 503, method: "POST" });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("rejects with a timeout error when the API doesn't answer", async () => {
+    handler = () => {
+      // Never answers
+    };
+
+    const error = await catchError(
+      client.conversations.get("c1", { timeoutMs: 50, retries: 0 }),
+    );
+
+    expect(error).toBeInstanceOf(TavusTimeoutError);
+    expect(error).toMatchObject({
+      timeoutMs: 50,
+      method: "GET",
+      path: "/conversations/c1",
+    });
+  });
+});
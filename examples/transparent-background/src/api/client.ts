@@ -0,0 +1,271 @@
+import type {
+  ConversationStatus,
+  IConversation,
+  ICreateConversationRequest,
+  ICreatePersonaRequest,
+  ICreateReplicaRequest,
+  IListParams,
+  IListResponse,
+  IPersona,
+  IReplica,
+} from "../types";
+import { TavusApiError, TavusTimeoutError } from "./errors";
+import {
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+  getRetryDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep,
+  withTimeout,
+} from "./retry";
+
+export const TAVUS_API_BASE_URL = "https://tavusapi.com/v2";
+
+export const DEFAULT_TIMEOUT_MS = 15000;
+
+export type TavusClientOptions = {
+  /** Omitted when `baseUrl` is a token proxy that adds the key itself. */
+  apiKey?: string;
+  /** Defaults to the public Tavus API; point it at a local mock in tests. */
+  baseUrl?: string;
+  /** Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  /** Timeout applied to each attempt unless overridden per call. */
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+};
+
+/**
+ * How to reach the API: with the API key itself, or through a token proxy
+ * that holds the key and mirrors the conversation endpoints.
+ */
+export type TavusAuth = string | { proxyUrl: string };
+
+export const toClientOptions = (auth: TavusAuth): TavusClientOptions =>
+  typeof auth === "string" ? { apiKey: auth } : { baseUrl: auth.proxyUrl };
+
+/**
+ * Per-call overrides. Retries only ever apply to idempotent operations;
+ * creating a resource is attempted exactly once.
+ */
+export type TavusRequestOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  /** Lets the request outlive the page, e.g. when sent from `pagehide`. */
+  keepalive?: boolean;
+};
+
+type Query = Record<string, string | number | boolean | undefined>;
+
+type RequestOptions = TavusRequestOptions & {
+  method?: "GET" | "POST" | "DELETE";
+  query?: Query;
+  body?: unknown;
+  idempotent?: boolean;
+};
+
+const buildQueryString = (query?: Query) => {
+  if (!query) return "";
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  }
+  const search = params.toString();
+  return search ? `?${search}` : "";
+};
+
+const parseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Creates a typed client for the Tavus v2 REST API.
+ * Every method resolves with the parsed JSON body and rejects with a
+ * `TavusApiError` when the API answers with a non-2xx status, a
+ * `TavusTimeoutError` when an attempt times out, or the signal's abort
+ * reason when the caller cancels.
+ *
+ * Idempotent calls are retried on 429/5xx responses and network failures
+ * with exponential backoff, honoring `Retry-After`.
+ */
+export const createTavusClient = ({
+  apiKey,
+  baseUrl = TAVUS_API_BASE_URL,
+  fetch: fetchImpl,
+  timeoutMs: defaultTimeoutMs = DEFAULT_TIMEOUT_MS,
+  retry,
+}: TavusClientOptions) => {
+  const root = baseUrl.replace(/\/+$/, "");
+  const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retry };
+
+  const attempt = async (
+    path: string,
+    {
+      method = "GET",
+      query,
+      body,
+      signal,
+      timeoutMs = defaultTimeoutMs,
+      keepalive,
+    }: RequestOptions,
+  ) => {
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      headers["x-api-key"] = apiKey;
+    }
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const timeout = withTimeout(signal, timeoutMs);
+    try {
+      const response = await (fetchImpl ?? fetch)(
+        `${root}${path}${buildQueryString(query)}`,
+        {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: timeout.signal,
+          keepalive,
+        },
+      );
+      return { response, data: await parseBody(response) };
+    } catch (error) {
+      if (timeout.timedOut()) {
+        throw new TavusTimeoutError({ timeoutMs, method, path });
+      }
+      throw error;
+    } finally {
+      timeout.clear();
+    }
+  };
+
+  const request = async <T>(
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<T> => {
+    const { method = "GET", signal, idempotent = method !== "POST" } = options;
+    const retries = idempotent ? options.retries ?? retryPolicy.retries : 0;
+
+    for (let attemptIndex = 0; ; attemptIndex++) {
+      const canRetry = attemptIndex < retries;
+      let result: Awaited<ReturnType<typeof attempt>>;
+
+      try {
+        result = await attempt(path, options);
+      } catch (error) {
+        // Cancellation is final; timeouts and network errors are retryable
+        if (signal?.aborted || !canRetry) throw error;
+        await sleep(getRetryDelay(attemptIndex, retryPolicy), signal);
+        continue;
+      }
+
+      const { response, data } = result;
+      if (response.ok) {
+        return data as T;
+      }
+      if (!canRetry || !isRetryableStatus(response.status)) {
+        throw new TavusApiError({
+          status: response.status,
+          body: data,
+          requestId: response.headers.get("x-request-id"),
+          method,
+          path,
+        });
+      }
+      await sleep(
+        getRetryDelay(
+          attemptIndex,
+          retryPolicy,
+          parseRetryAfter(response.headers.get("retry-after")),
+        ),
+        signal,
+      );
+    }
+  };
+
+  const id = (value: string) => encodeURIComponent(value);
+
+  return {
+    conversations: {
+      list: (
+        params?: IListParams & { status?: ConversationStatus },
+        options?: TavusRequestOptions,
+      ) =>
+        request<IListResponse<IConversation>>("/conversations", {
+          ...options,
+          query: params,
+        }),
+      get: (conversationId: string, options?: TavusRequestOptions) =>
+        request<IConversation>(`/conversations/${id(conversationId)}`, options),
+      create: (
+        body: ICreateConversationRequest,
+        options?: TavusRequestOptions,
+      ) =>
+        request<IConversation>("/conversations", {
+          ...options,
+          method: "POST",
+          body,
+        }),
+      // Ending an already ended conversation is harmless, so it is retried
+      end: (conversationId: string, options?: TavusRequestOptions) =>
+        request<null>(`/conversations/${id(conversationId)}/end`, {
+          ...options,
+          method: "POST",
+          idempotent: true,
+        }),
+      delete: (conversationId: string, options?: TavusRequestOptions) =>
+        request<null>(`/conversations/${id(conversationId)}`, {
+          ...options,
+          method: "DELETE",
+        }),
+    },
+    replicas: {
+      list: (
+        params?: IListParams & { verbose?: boolean },
+        options?: TavusRequestOptions,
+      ) =>
+        request<IListResponse<IReplica>>("/replicas", {
+          ...options,
+          query: params,
+        }),
+      get: (replicaId: string, options?: TavusRequestOptions) =>
+        request<IReplica>(`/replicas/${id(replicaId)}`, options),
+      create: (body: ICreateReplicaRequest, options?: TavusRequestOptions) =>
+        request<IReplica>("/replicas", { ...options, method: "POST", body }),
+      delete: (replicaId: string, options?: TavusRequestOptions) =>
+        request<null>(`/replicas/${id(replicaId)}`, {
+          ...options,
+          method: "DELETE",
+        }),
+    },
+    personas: {
+      list: (params?: IListParams, options?: TavusRequestOptions) =>
+        request<IListResponse<IPersona>>("/personas", {
+          ...options,
+          query: params,
+        }),
+      get: (personaId: string, options?: TavusRequestOptions) =>
+        request<IPersona>(`/personas/${id(personaId)}`, options),
+      create: (body: ICreatePersonaRequest, options?: TavusRequestOptions) =>
+        request<IPersona>("/personas", { ...options, method: "POST", body }),
+      delete: (personaId: string, options?: TavusRequestOptions) =>
+        request<null>(`/personas/${id(personaId)}`, {
+          ...options,
+          method: "DELETE",
+        }),
+    },
+  };
+};
+
+export type TavusClient = ReturnType<typeof createTavusClient>;
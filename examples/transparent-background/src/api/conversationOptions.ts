@@ -0,0 +1,102 @@
+import type { ICreateConversationRequest } from "../types";
+
+export type CreateConversationOptions = ICreateConversationRequest;
+
+export const DEFAULT_CONVERSATION_OPTIONS: CreateConversationOptions = {
+  // Stock Demo Persona
+  persona_id: "p9a95912",
+  properties: {
+    apply_greenscreen: true,
+  },
+};
+
+/**
+ * Thrown before any request is sent when the conversation options are
+ * invalid. `issues` lists every problem found, one message per field.
+ */
+export class InvalidConversationOptionsError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid conversation options: ${issues.join("; ")}`);
+    this.name = "InvalidConversationOptionsError";
+    this.issues = issues;
+  }
+}
+
+const isBlank = (value: string | undefined) =>
+  value !== undefined && value.trim() === "";
+
+const isHttpUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const isNonNegativeInteger = (value: number) =>
+  Number.isInteger(value) && value >= 0;
+
+/**
+ * Returns the list of problems with the given options; empty when valid.
+ */
+export const getConversationOptionsIssues = (
+  options: CreateConversationOptions,
+): string[] => {
+  const issues: string[] = [];
+  const { properties = {} } = options;
+
+  if (!options.replica_id && !options.persona_id) {
+    issues.push("either replica_id or persona_id is required");
+  }
+  if (isBlank(options.replica_id)) {
+    issues.push("replica_id must not be blank");
+  }
+  if (isBlank(options.persona_id)) {
+    issues.push("persona_id must not be blank");
+  }
+  if (options.callback_url !== undefined && !isHttpUrl(options.callback_url)) {
+    issues.push("callback_url must be an http(s) URL");
+  }
+  if (
+    properties.max_call_duration !== undefined &&
+    !(
+      Number.isInteger(properties.max_call_duration) &&
+      properties.max_call_duration > 0
+    )
+  ) {
+    issues.push("properties.max_call_duration must be a positive integer");
+  }
+  if (
+    properties.participant_left_timeout !== undefined &&
+    !isNonNegativeInteger(properties.participant_left_timeout)
+  ) {
+    issues.push(
+      "properties.participant_left_timeout must be a non-negative integer",
+    );
+  }
+  if (
+    properties.participant_absent_timeout !== undefined &&
+    !isNonNegativeInteger(properties.participant_absent_timeout)
+  ) {
+    issues.push(
+      "properties.participant_absent_timeout must be a non-negative integer",
+    );
+  }
+  if (isBlank(properties.language)) {
+    issues.push("properties.language must not be blank");
+  }
+
+  return issues;
+};
+
+export const validateConversationOptions = (
+  options: CreateConversationOptions,
+) => {
+  const issues = getConversationOptionsIssues(options);
+  if (issues.length > 0) {
+    throw new InvalidConversationOptionsError(issues);
+  }
+};
@@ -1,27 +1,29 @@
 import type { IConversation } from "../types";
+import {
+  type TavusAuth,
+  type TavusRequestOptions,
+  createTavusClient,
+  toClientOptions,
+} from "./client";
+import {
+  type CreateConversationOptions,
+  DEFAULT_CONVERSATION_OPTIONS,
+  validateConversationOptions,
+} from "./conversationOptions";
 
+/**
+ * Validates `options` and creates a conversation. Throws
+ * `InvalidConversationOptionsError` without contacting the API when the
+ * options are invalid.
+ */
 export const createConversation = async (
-  token: string,
+  auth: TavusAuth,
+  options: CreateConversationOptions = DEFAULT_CONVERSATION_OPTIONS,
+  requestOptions?: TavusRequestOptions,
 ): Promise<IConversation> => {
-  const response = await fetch("https://tavusapi.com/v2/conversations", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": token,
-    },
-    body: JSON.stringify({
-      // Stock Demo Persona
-      persona_id: "p9a95912",
-      properties: {
-        apply_greenscreen: true,
-      },
-    }),
-  });
-
-  if (!response?.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return data;
+  validateConversationOptions(options);
+  return createTavusClient(toClientOptions(auth)).conversations.create(
+    options,
+    requestOptions,
+  );
 };
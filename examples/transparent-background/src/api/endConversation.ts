@@ -1,25 +1,17 @@
+import {
+  type TavusAuth,
+  type TavusRequestOptions,
+  createTavusClient,
+  toClientOptions,
+} from "./client";
+
 export const endConversation = async (
   conversationId: string,
-  token: string,
+  auth: TavusAuth,
+  requestOptions?: TavusRequestOptions,
 ) => {
-  try {
-    const response = await fetch(
-      `https://tavusapi.com/v2/conversations/${conversationId}/end`,
-      {
-        method: "POST",
-        headers: {
-          "x-api-key": token,
-        },
-      },
-    );
-
-    if (!response.ok) {
-      throw new Error("Failed to end conversation");
-    }
-
-    return null;
-  } catch (error) {
-    console.error("Error:", error);
-    throw error;
-  }
+  return createTavusClient(toClientOptions(auth)).conversations.end(
+    conversationId,
+    requestOptions,
+  );
 };
@@ -0,0 +1,79 @@
+/**
+ * Error thrown for any non-2xx response from the Tavus API.
+ * Carries the HTTP status, the parsed response body and the request id
+ * reported by the API so failures can be traced on the Tavus side.
+ */
+export class TavusApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+  readonly requestId: string | null;
+  readonly method: string;
+  readonly path: string;
+
+  constructor({
+    status,
+    body,
+    requestId,
+    method,
+    path,
+  }: {
+    status: number;
+    body: unknown;
+    requestId: string | null;
+    method: string;
+    path: string;
+  }) {
+    super(
+      `Tavus API ${method} ${path} failed with status ${status}${getBodyMessage(body)}`,
+    );
+    this.name = "TavusApiError";
+    this.status = status;
+    this.body = body;
+    this.requestId = requestId;
+    this.method = method;
+    this.path = path;
+  }
+}
+
+const getBodyMessage = (body: unknown) => {
+  if (typeof body === "string" && body) {
+    return `: ${body}`;
+  }
+  if (body && typeof body === "object") {
+    const { message, error } = body as { message?: unknown; error?: unknown };
+    const detail = message ?? error;
+    if (typeof detail === "string") {
+      return `: ${detail}`;
+    }
+  }
+  return "";
+};
+
+/**
+ * Thrown when a single attempt of a Tavus API call exceeds its timeout and
+ * no retries are left.
+ */
+export class TavusTimeoutError extends Error {
+  readonly timeoutMs: number;
+  readonly method: string;
+  readonly path: string;
+
+  constructor({
+    timeoutMs,
+    method,
+    path,
+  }: {
+    timeoutMs: number;
+    method: string;
+    path: string;
+  }) {
+    super(`Tavus API ${method} ${path} timed out after ${timeoutMs}ms`);
+    this.name = "TavusTimeoutError";
+    this.timeoutMs = timeoutMs;
+    this.method = method;
+    this.path = path;
+  }
+}
+
+export const isTavusApiError = (error: unknown): error is TavusApiError =>
+  error instanceof TavusApiError;
@@ -0,0 +1,18 @@
+import type { IConversation } from "../types";
+import {
+  type TavusAuth,
+  type TavusRequestOptions,
+  createTavusClient,
+  toClientOptions,
+} from "./client";
+
+export const getConversation = async (
+  conversationId: string,
+  auth: TavusAuth,
+  requestOptions?: TavusRequestOptions,
+): Promise<IConversation> => {
+  return createTavusClient(toClientOptions(auth)).conversations.get(
+    conversationId,
+    requestOptions,
+  );
+};
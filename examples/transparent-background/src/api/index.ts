@@ -1,2 +1,7 @@
+export * from "./client";
+export * from "./errors";
+export * from "./retry";
+export * from "./conversationOptions";
 export * from "./createConversation";
 export * from "./endConversation";
+export * from "./getConversation";
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTavusClient } from "./client";
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep,
+  withTimeout,
+} from "./retry";
+
+const jsonResponse = (status: number, headers?: Record<string, string>) =>
+  new Response(status === 204 ? null : JSON.stringify({ status }), {
+    status,
+    headers,
+  });
+
+describe("isRetryableStatus", () => {
+  it("retries rate limits and server errors only", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+  });
+
+  it("reads HTTP dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:05 GMT", now)).toBe(5000);
+  });
+
+  it("ignores missing and invalid values", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("doubles the ceiling with every attempt up to the maximum", () => {
+    const max = () => 1;
+    expect(getRetryDelay(0, DEFAULT_RETRY_POLICY, null, max)).toBe(500);
+    expect(getRetryDelay(2, DEFAULT_RETRY_POLICY, null, max)).toBe(2000);
+    expect(getRetryDelay(10, DEFAULT_RETRY_POLICY, null, max)).toBe(8000);
+  });
+
+  it("prefers the server's Retry-After", () => {
+    expect(getRetryDelay(0, DEFAULT_RETRY_POLICY, 30_000)).toBe(30_000);
+  });
+});
+
+describe("with fake timers", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("sleep", () => {
+    it("resolves after the delay", async () => {
+      const resolved = vi.fn();
+      sleep(1000).then(resolved);
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(resolved).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1);
+      expect(resolved).toHaveBeenCalled();
+    });
+
+    it("rejects at once when aborted", async () => {
+      const controller = new AbortController();
+      const sleeping = sleep(60_000, controller.signal);
+
+      controller.abort();
+
+      await expect(sleeping).rejects.toMatchObject({ name: "AbortError" });
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe("withTimeout", () => {
+    it("aborts after the timeout and reports it", async () => {
+      const timeout = withTimeout(undefined, 1000);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(timeout.signal.aborted).toBe(true);
+      expect(timeout.timedOut()).toBe(true);
+    });
+
+    it("follows the caller's signal without timing out", () => {
+      const controller = new AbortController();
+      const timeout = withTimeout(controller.signal, 1000);
+
+      controller.abort();
+
+      expect(timeout.signal.aborted).toBe(true);
+      expect(timeout.timedOut()).toBe(false);
+      timeout.clear();
+    });
+  });
+
+  describe("client retries", () => {
+    const createClient = (fetchImpl: typeof fetch) =>
+      createTavusClient({ apiKey: "test-key", fetch: fetchImpl });
+
+    it("retries idempotent calls with backoff", async () => {
+      const fetchImpl = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(jsonResponse(503))
+        .mockResolvedValueOnce(jsonResponse(503))
+        .mockResolvedValue(jsonResponse(200));
+      const request = createClient(fetchImpl).conversations.get("c1");
+
+      await vi.runAllTimersAsync();
+
+      await expect(request).resolves.toEqual({ status: 200 });
+      expect(fetchImpl).toHaveBeenCalledTimes(3);
+    });
+
+    it("gives up after the configured retries", async () => {
+      const fetchImpl = vi.fn<typeof fetch>(async () => jsonResponse(500));
+      const request = createClient(fetchImpl).conversations.get("c1");
+      const rejected = expect(request).rejects.toMatchObject({ status: 500 });
+
+      await vi.runAllTimersAsync();
+
+      await rejected;
+      expect(fetchImpl).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.retries + 1);
+    });
+
+    it("never retries non-idempotent calls", async () => {
+      const fetchImpl = vi.fn<typeof fetch>(async () => jsonResponse(503));
+      const request = createClient(fetchImpl).conversations.create({
+        persona_id: "p1",
+      });
+      const rejected = expect(request).rejects.toMatchObject({ status: 503 });
+
+      await vi.runAllTimersAsync();
+
+      await rejected;
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries ending a conversation, which is idempotent", async () => {
+      const fetchImpl = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(jsonResponse(502))
+        .mockResolvedValue(jsonResponse(204));
+      const request = createClient(fetchImpl).conversations.end("c1");
+
+      await vi.runAllTimersAsync();
+
+      await expect(request).resolves.toBeNull();
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it("waits as long as Retry-After asks", async () => {
+      const fetchImpl = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(jsonResponse(429, { "Retry-After": "30" }))
+        .mockResolvedValue(jsonResponse(200));
+      const request = createClient(fetchImpl).conversations.get("c1");
+
+      await vi.advanceTimersByTimeAsync(29_999);
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(request).resolves.toEqual({ status: 200 });
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects at once when aborted while waiting to retry", async () => {
+      const fetchImpl = vi.fn<typeof fetch>(async () =>
+        jsonResponse(503, { "Retry-After": "60" }),
+      );
+      const controller = new AbortController();
+      const request = createClient(fetchImpl).conversations.get("c1", {
+        signal: controller.signal,
+      });
+      await vi.advanceTimersByTimeAsync(0);
+
+      controller.abort();
+
+      await expect(request).rejects.toMatchObject({ name: "AbortError" });
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+});
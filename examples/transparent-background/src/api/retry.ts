@@ -0,0 +1,113 @@
+export type RetryPolicy = {
+  /** Number of retries after the first attempt. */
+  retries: number;
+  /** Base delay for the exponential backoff, in milliseconds. */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, in milliseconds. */
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+export const isRetryableStatus = (status: number) =>
+  status === 429 || status >= 500;
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP
+ * date. Returns the delay in milliseconds, or null when absent or invalid.
+ */
+export const parseRetryAfter = (
+  value: string | null,
+  now = Date.now(),
+): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Exponential backoff with full jitter. A `Retry-After` delay from the
+ * server takes precedence over the computed one.
+ */
+export const getRetryDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs: number | null = null,
+  random = Math.random,
+) => {
+  if (retryAfterMs !== null) return retryAfterMs;
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** attempt,
+  );
+  return Math.round(random() * ceiling);
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+const getAbortReason = (signal: AbortSignal) =>
+  signal.reason ?? new DOMException("The operation was aborted", "AbortError");
+
+/**
+ * Resolves after `ms`, or rejects with the signal's reason once aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(getAbortReason(signal as AbortSignal));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Returns a signal that aborts when `signal` aborts or after `timeoutMs`,
+ * whichever comes first. `timedOut()` tells the two apart afterwards.
+ */
+export const withTimeout = (
+  signal: AbortSignal | undefined,
+  timeoutMs: number,
+) => {
+  const controller = new AbortController();
+  let didTimeOut = false;
+
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const timeoutId = setTimeout(() => {
+    didTimeOut = true;
+    controller.abort(
+      new DOMException(`Timed out after ${timeoutMs}ms`, "TimeoutError"),
+    );
+  }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => didTimeOut,
+    clear: () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};
@@ -0,0 +1,150 @@
+/** Who said something in the conversation. */
+export type ConversationRole = "user" | "replica";
+
+/** Envelope of every app-message exchanged with a Tavus conversation. */
+export type ConversationAppMessage<EventType extends string, Properties> = {
+  message_type: "conversation";
+  event_type: EventType;
+  conversation_id: string;
+  properties: Properties;
+};
+
+/** Sent whenever the user or the replica finishes an utterance. */
+export type UtteranceEvent = ConversationAppMessage<
+  "conversation.utterance",
+  { role: ConversationRole; speech: string }
+>;
+
+export type ReplicaStartedSpeakingEvent = ConversationAppMessage<
+  "conversation.replica.started_speaking",
+  { inference_id?: string }
+>;
+
+export type ReplicaStoppedSpeakingEvent = ConversationAppMessage<
+  "conversation.replica.stopped_speaking",
+  { inference_id?: string; duration?: number; interrupted?: boolean }
+>;
+
+export type UserStartedSpeakingEvent = ConversationAppMessage<
+  "conversation.user.started_speaking",
+  Record<string, unknown>
+>;
+
+export type UserStoppedSpeakingEvent = ConversationAppMessage<
+  "conversation.user.stopped_speaking",
+  Record<string, unknown>
+>;
+
+/**
+ * The replica's LLM calling one of the persona's tools. `arguments` is the
+ * JSON-encoded argument object.
+ */
+export type ToolCallEvent = ConversationAppMessage<
+  "conversation.tool_call",
+  { name: string; arguments: string; inference_id?: string }
+>;
+
+/** Events the conversation sends to the call. */
+export type ConversationAppEvent =
+  | UtteranceEvent
+  | ReplicaStartedSpeakingEvent
+  | ReplicaStoppedSpeakingEvent
+  | UserStartedSpeakingEvent
+  | UserStoppedSpeakingEvent
+  | ToolCallEvent;
+
+export type ConversationAppEventType = ConversationAppEvent["event_type"];
+
+/** Makes the replica say `text` as is. */
+export type EchoInteraction = ConversationAppMessage<
+  "conversation.echo",
+  { modality: "text"; text: string }
+>;
+
+/** Has the replica respond to `text` as if the user had said it. */
+export type RespondInteraction = ConversationAppMessage<
+  "conversation.respond",
+  { text: string }
+>;
+
+/** Stops the replica mid-utterance. */
+export type InterruptInteraction = ConversationAppMessage<
+  "conversation.interrupt",
+  Record<string, never>
+>;
+
+export type OverwriteContextInteraction = ConversationAppMessage<
+  "conversation.overwrite_llm_context",
+  { context: string }
+>;
+
+export type AppendContextInteraction = ConversationAppMessage<
+  "conversation.append_llm_context",
+  { context: string }
+>;
+
+/** Messages the call sends to drive the conversation. */
+export type ConversationInteraction =
+  | EchoInteraction
+  | RespondInteraction
+  | InterruptInteraction
+  | OverwriteContextInteraction
+  | AppendContextInteraction;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isString = (value: unknown) => typeof value === "string";
+const isNumber = (value: unknown) => typeof value === "number";
+const isBoolean = (value: unknown) => typeof value === "boolean";
+
+const isOptional = (value: unknown, isType: (value: unknown) => boolean) =>
+  value === undefined || isType(value);
+
+// Checks the properties each known event must carry
+const eventValidators: Record<
+  ConversationAppEventType,
+  (properties: Record<string, unknown>) => boolean
+> = {
+  "conversation.utterance": ({ role, speech }) =>
+    (role === "user" || role === "replica") && isString(speech),
+  "conversation.replica.started_speaking": ({ inference_id }) =>
+    isOptional(inference_id, isString),
+  "conversation.replica.stopped_speaking": ({
+    inference_id,
+    duration,
+    interrupted,
+  }) =>
+    isOptional(inference_id, isString) &&
+    isOptional(duration, isNumber) &&
+    isOptional(interrupted, isBoolean),
+  "conversation.user.started_speaking": () => true,
+  "conversation.user.stopped_speaking": () => true,
+  "conversation.tool_call": ({ name, arguments: args }) =>
+    isString(name) && isString(args),
+};
+
+/**
+ * Returns the app-message as a typed conversation event, or null when it
+ * is not one this app understands.
+ */
+export const parseConversationAppEvent = (
+  data: unknown,
+): ConversationAppEvent | null => {
+  if (!isRecord(data) || data.message_type !== "conversation") return null;
+  const { event_type: eventType } = data;
+  if (
+    typeof eventType !== "string" ||
+    !Object.prototype.hasOwnProperty.call(eventValidators, eventType)
+  ) {
+    return null;
+  }
+  const properties = isRecord(data.properties) ? data.properties : {};
+  const validate = eventValidators[eventType as ConversationAppEventType];
+  return validate(properties)
+    ? ({ ...data, properties } as ConversationAppEvent)
+    : null;
+};
+
+export const isUtteranceEvent = (data: unknown): data is UtteranceEvent =>
+  parseConversationAppEvent(data)?.event_type === "conversation.utterance";
@@ -0,0 +1,34 @@
+/** Levels are normalized from this many dBFS up to 0 dBFS. */
+const LEVEL_FLOOR_DB = -60;
+
+/** Level above which a track counts as someone speaking (about -30 dBFS). */
+export const SPEAKING_LEVEL = 0.5;
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * One AudioContext shared by every analyser, since browsers cap how many a
+ * page may open. It may start suspended until the user interacts.
+ */
+export const getAudioContext = () => {
+  audioContext ??= new AudioContext();
+  if (audioContext.state === "suspended") {
+    audioContext.resume().catch(console.error);
+  }
+  return audioContext;
+};
+
+/** Root mean square of a block of samples, from 0 to 1 at full scale. */
+export const getRms = (samples: Float32Array) => {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return Math.sqrt(sum / samples.length);
+};
+
+/** Loudness of a block of samples, from 0 (silence) to 1 (full scale). */
+export const getAudioLevel = (samples: Float32Array) => {
+  const rms = getRms(samples);
+  if (rms === 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - LEVEL_FLOOR_DB) / -LEVEL_FLOOR_DB));
+};
@@ -0,0 +1,7 @@
+export * from "./appMessages";
+export * from "./audioLevel";
+export * from "./useAudioLevel";
+export * from "./useAudioVolume";
+export * from "./useConversationActions";
+export * from "./useReplicaPresence";
+export * from "./useSilentMicWarning";
@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+import { SPEAKING_LEVEL, getAudioContext, getAudioLevel } from "./audioLevel";
+
+// Keeps the speaking state through the short pauses between words
+const SPEAKING_HOLD_MS = 400;
+// Levels are rounded to this step so React only re-renders on visible change
+const LEVEL_STEP = 0.05;
+
+/**
+ * Measures an audio track with a Web Audio analyser on every animation
+ * frame. Returns its level from 0 to 1 and whether it sounds like speech.
+ */
+export const useAudioLevel = (track: MediaStreamTrack | undefined) => {
+  const [level, setLevel] = useState(0);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+
+  useEffect(() => {
+    if (!track) return;
+    const context = getAudioContext();
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let lastLoudAt = Number.NEGATIVE_INFINITY;
+    let frameId = 0;
+
+    const measure = (time: number) => {
+      analyser.getFloatTimeDomainData(samples);
+      const current = getAudioLevel(samples);
+      if (current >= SPEAKING_LEVEL) lastLoudAt = time;
+      setLevel(Math.round(current / LEVEL_STEP) * LEVEL_STEP);
+      setIsSpeaking(time - lastLoudAt < SPEAKING_HOLD_MS);
+      frameId = requestAnimationFrame(measure);
+    };
+    frameId = requestAnimationFrame(measure);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      source.disconnect();
+      setLevel(0);
+      setIsSpeaking(false);
+    };
+  }, [track]);
+
+  return { level, isSpeaking };
+};
@@ -0,0 +1,33 @@
+import { type DailyAudio, useDailyEvent } from "@daily-co/daily-react";
+import { type ElementRef, type RefObject, useCallback, useEffect } from "react";
+
+// daily-react does not export the handle type of DailyAudio's ref
+export type DailyAudioHandle = ElementRef<typeof DailyAudio>;
+
+/**
+ * Applies `volume` (0 - 1) to every audio element rendered by `DailyAudio`.
+ * Elements appear as speakers start talking, so the volume is re-applied
+ * whenever a track starts.
+ */
+export const useAudioVolume = (
+  audioRef: RefObject<DailyAudioHandle>,
+  volume: number,
+) => {
+  const applyVolume = useCallback(() => {
+    for (const audio of audioRef.current?.getAllAudio() ?? []) {
+      audio.volume = volume;
+    }
+  }, [audioRef, volume]);
+
+  useEffect(() => {
+    applyVolume();
+  }, [applyVolume]);
+
+  useDailyEvent(
+    "track-started",
+    useCallback(() => {
+      // DailyAudio attaches the track after this event fires
+      setTimeout(applyVolume, 0);
+    }, [applyVolume]),
+  );
+};
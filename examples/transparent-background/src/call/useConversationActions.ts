@@ -0,0 +1,80 @@
+import { useAppMessage, useDaily } from "@daily-co/daily-react";
+import { useCallback, useMemo, useRef } from "react";
+import {
+  type ConversationAppEvent,
+  type ConversationInteraction,
+  parseConversationAppEvent,
+} from "./appMessages";
+
+/**
+ * Drives the replica during a call through Daily app-messages: make it say
+ * something, respond to text, stop talking, or change the context its LLM
+ * works with. `onEvent` receives every conversation event the call gets,
+ * already typed.
+ */
+export const useConversationActions = ({
+  conversationId,
+  onEvent,
+}: {
+  conversationId: string;
+  onEvent?: (event: ConversationAppEvent) => void;
+}) => {
+  const daily = useDaily();
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useAppMessage({
+    onAppMessage: useCallback(({ data }: { data: unknown }) => {
+      const event = parseConversationAppEvent(data);
+      if (event) onEventRef.current?.(event);
+    }, []),
+  });
+
+  const send = useCallback(
+    (interaction: ConversationInteraction) => {
+      daily?.sendAppMessage(interaction, "*");
+    },
+    [daily],
+  );
+
+  return useMemo(() => {
+    const envelope = {
+      message_type: "conversation",
+      conversation_id: conversationId,
+    } as const;
+    return {
+      echo: (text: string) =>
+        send({
+          ...envelope,
+          event_type: "conversation.echo",
+          properties: { modality: "text", text },
+        }),
+      respond: (text: string) =>
+        send({
+          ...envelope,
+          event_type: "conversation.respond",
+          properties: { text },
+        }),
+      interrupt: () =>
+        send({
+          ...envelope,
+          event_type: "conversation.interrupt",
+          properties: {},
+        }),
+      overwriteContext: (context: string) =>
+        send({
+          ...envelope,
+          event_type: "conversation.overwrite_llm_context",
+          properties: { context },
+        }),
+      appendContext: (context: string) =>
+        send({
+          ...envelope,
+          event_type: "conversation.append_llm_context",
+          properties: { context },
+        }),
+    };
+  }, [send, conversationId]);
+};
+
+export type ConversationActions = ReturnType<typeof useConversationActions>;
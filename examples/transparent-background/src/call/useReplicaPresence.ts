@@ -0,0 +1,38 @@
+import type { DailyParticipant } from "@daily-co/daily-js";
+import { useParticipantIds } from "@daily-co/daily-react";
+import { useCallback, useEffect, useState } from "react";
+
+export type ReplicaPresence = "waiting" | "present" | "left";
+
+/**
+ * Tracks the replica through the call: `waiting` until it joins, `present`
+ * while it is in the call, and `left` once it has gone, so the UI can stop
+ * showing a spinner forever.
+ *
+ * The replica is the remote participant named after `replicaId`, so other
+ * guests in the room are never mistaken for it. Without a replica id, the
+ * first remote participant is taken.
+ */
+export const useReplicaPresence = (replicaId: string | null) => {
+  const isReplica = useCallback(
+    ({ local, user_id, user_name }: DailyParticipant) =>
+      !local &&
+      (!replicaId || user_name === replicaId || user_id.includes(replicaId)),
+    [replicaId],
+  );
+  const replicaParticipantIds = useParticipantIds({ filter: isReplica });
+  const sessionId = replicaParticipantIds[0] as string | undefined;
+  const [hasJoined, setHasJoined] = useState(false);
+
+  useEffect(() => {
+    if (sessionId) setHasJoined(true);
+  }, [sessionId]);
+
+  let presence: ReplicaPresence = "waiting";
+  if (sessionId) {
+    presence = "present";
+  } else if (hasJoined) {
+    presence = "left";
+  }
+  return { sessionId, presence };
+};
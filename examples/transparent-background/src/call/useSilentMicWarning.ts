@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from "react";
+import { getAudioContext, getRms } from "./audioLevel";
+
+/** Time without sound, not counting the replica's turns, before warning. */
+export const SILENT_MIC_WARNING_MS = 30_000;
+const CHECK_INTERVAL_MS = 1000;
+/**
+ * Raw RMS (about -70 dBFS) above which the track counts as carrying sound.
+ * Noise suppression can bring a quiet room close to digital silence, so
+ * this sits far below speech but above a muted or dead device's output.
+ */
+const SOUND_RMS = 0.0003;
+
+/**
+ * True once the microphone track has gone `SILENT_MIC_WARNING_MS` without
+ * any sound. Time spent while the replica is speaking doesn't count, since
+ * the user is expected to listen then, so this points at a muted or broken
+ * device rather than a user who is waiting for their turn.
+ */
+export const useSilentMicWarning = (
+  track: MediaStreamTrack | undefined,
+  isReplicaSpeaking: boolean,
+) => {
+  const [isSilent, setIsSilent] = useState(false);
+  const isReplicaSpeakingRef = useRef(isReplicaSpeaking);
+  isReplicaSpeakingRef.current = isReplicaSpeaking;
+
+  useEffect(() => {
+    setIsSilent(false);
+    if (!track) return;
+    const context = getAudioContext();
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let hasSound = false;
+    let silentMs = 0;
+    let frameId = 0;
+
+    // Sampled on every frame so short words between checks aren't missed
+    const measure = () => {
+      analyser.getFloatTimeDomainData(samples);
+      if (getRms(samples) >= SOUND_RMS) hasSound = true;
+      frameId = requestAnimationFrame(measure);
+    };
+    frameId = requestAnimationFrame(measure);
+
+    const intervalId = setInterval(() => {
+      if (hasSound) {
+        silentMs = 0;
+      } else if (!isReplicaSpeakingRef.current) {
+        silentMs += CHECK_INTERVAL_MS;
+      }
+      hasSound = false;
+      setIsSilent(silentMs >= SILENT_MIC_WARNING_MS);
+    }, CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(intervalId);
+      cancelAnimationFrame(frameId);
+      source.disconnect();
+    };
+  }, [track]);
+
+  return isSilent;
+};
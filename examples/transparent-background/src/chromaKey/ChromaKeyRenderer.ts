@@ -0,0 +1,444 @@
+import type {
+  ChromaKeyBackend,
+  ChromaKeyBackendType,
+  ChromaKeyParams,
+  FrameSource,
+} from "./backend";
+import { createCanvas2DBackend } from "./canvas2d";
+import {
+  type BackgroundMedia,
+  DEFAULT_COMPOSITING_SETTINGS,
+  isVideoElement,
+  loadBackgroundMedia,
+  releaseBackgroundMedia,
+} from "./compositing";
+import { ChromaKeyUnsupportedError } from "./errors";
+import { createFrameMetrics } from "./frameMetrics";
+import { DEFAULT_CHROMA_KEY_SETTINGS } from "./settings";
+import { createWebGLBackend } from "./webgl";
+
+export type ChromaKeySource = HTMLVideoElement | MediaStream | ImageBitmap;
+
+export type ChromaKeyTarget = HTMLCanvasElement | OffscreenCanvas;
+
+export type ChromaKeyRendererOptions = Partial<ChromaKeyParams> & {
+  /** "auto" (the default) uses WebGL when available and Canvas2D otherwise. */
+  backend?: ChromaKeyBackendType | "auto";
+  /** Upper bound on frames drawn per second. */
+  maxFps?: number;
+  /**
+   * Receives errors the renderer cannot throw to the caller, such as a
+   * failed re-initialization after the WebGL context is restored.
+   */
+  onError?: (error: Error) => void;
+};
+
+export const DEFAULT_MAX_FPS = 30;
+
+// Frame callbacks jitter around the display interval, so allow some slack
+// before counting a frame as too early for the cap
+const FRAME_INTERVAL_TOLERANCE_MS = 2;
+
+type FrameRequest = { cancel: () => void };
+
+const getSourceSize = (source: FrameSource) => {
+  if (isVideoElement(source)) return [source.videoWidth, source.videoHeight];
+  if (source instanceof ImageBitmap) return [source.width, source.height];
+  return [source.displayWidth, source.displayHeight];
+};
+
+const isSourceReady = (source: FrameSource) =>
+  !isVideoElement(source) || source.readyState === source.HAVE_ENOUGH_DATA;
+
+const supportsVideoFrameCallback = (
+  source: FrameSource | null,
+): source is HTMLVideoElement =>
+  isVideoElement(source) &&
+  typeof source.requestVideoFrameCallback === "function";
+
+// Dedicated workers do not all have requestAnimationFrame
+const requestFrame = (callback: (now: number) => void) =>
+  typeof requestAnimationFrame === "function"
+    ? requestAnimationFrame(callback)
+    : self.setTimeout(() => callback(performance.now()), 16);
+
+const cancelFrame = (id: number) =>
+  typeof cancelAnimationFrame === "function"
+    ? cancelAnimationFrame(id)
+    : self.clearTimeout(id);
+
+const getWebGLContext = (canvas: ChromaKeyTarget) =>
+  canvas.getContext("webgl", {
+    premultipliedAlpha: false,
+    alpha: true,
+  }) as WebGLRenderingContext | null;
+
+/**
+ * Keys a video source and composites it over an optional background. It
+ * knows nothing about React or Daily: give it any video element, media
+ * stream or image bitmap and a canvas (or OffscreenCanvas) to draw on.
+ *
+ * Typical use:
+ *
+ *   const renderer = new ChromaKeyRenderer(canvas);
+ *   renderer.setSource(stream);
+ *   renderer.start();
+ *   const keyed = renderer.captureStream();
+ *   // ...
+ *   renderer.dispose();
+ *
+ * Frames are drawn as the source produces them, through
+ * `requestVideoFrameCallback` where supported, never faster than `maxFps`
+ * and never faster than the backend manages to draw them. `getMetrics()`
+ * reports the resulting frame rate and draw times.
+ *
+ * In a worker, feed it `VideoFrame`s with `pushFrame` instead of calling
+ * `start`.
+ *
+ * Keying runs in a WebGL shader when possible. Shader compile and link
+ * failures throw from the constructor; a lost WebGL context pauses
+ * rendering until the browser restores it. Without WebGL the renderer keys
+ * on the CPU with a Canvas2D context instead.
+ */
+export class ChromaKeyRenderer {
+  readonly canvas: ChromaKeyTarget;
+  private backend: ChromaKeyBackend | null;
+  private readonly gl: WebGLRenderingContext | null = null;
+  private readonly onError: (error: Error) => void;
+  private params: ChromaKeyParams = {
+    chromaKey: DEFAULT_CHROMA_KEY_SETTINGS,
+    compositing: DEFAULT_COMPOSITING_SETTINGS,
+  };
+  private source: FrameSource | null = null;
+  /** Video element created by the renderer for MediaStream sources. */
+  private streamVideo: HTMLVideoElement | null = null;
+  /** Latest frame from `pushFrame`, kept for redraws until replaced. */
+  private pushedFrame: VideoFrame | null = null;
+  private backgroundKey: string | null = null;
+  private backgroundMedia: BackgroundMedia | null = null;
+  private maxFps: number;
+  private readonly metrics = createFrameMetrics();
+  private isRunning = false;
+  private frameRequest: FrameRequest | null = null;
+  private redrawRequest: number | null = null;
+  private lastFrameTime = Number.NEGATIVE_INFINITY;
+  private lastVideoTime = -1;
+  /** A source frame arrived that has not been drawn yet. */
+  private hasNewFrame = false;
+  /** Settings changed since the last draw. */
+  private isFrameDirty = true;
+  private isContextLost = false;
+  private isDisposed = false;
+
+  constructor(canvas: ChromaKeyTarget, options: ChromaKeyRendererOptions = {}) {
+    const {
+      backend = "auto",
+      maxFps = DEFAULT_MAX_FPS,
+      onError = console.error,
+      ...params
+    } = options;
+    this.canvas = canvas;
+    this.onError = onError;
+    this.maxFps = maxFps;
+
+    const gl = backend === "2d" ? null : getWebGLContext(canvas);
+    if (gl) {
+      this.gl = gl;
+      this.backend = createWebGLBackend(gl);
+      // Both canvas types fire these, but their listener types do not unify
+      const target = canvas as EventTarget;
+      target.addEventListener("webglcontextlost", this.handleContextLost);
+      target.addEventListener(
+        "webglcontextrestored",
+        this.handleContextRestored,
+      );
+    } else if (backend === "webgl") {
+      throw new ChromaKeyUnsupportedError("WebGL is not supported");
+    } else {
+      const ctx = canvas.getContext("2d") as
+        | CanvasRenderingContext2D
+        | OffscreenCanvasRenderingContext2D
+        | null;
+      if (!ctx) {
+        throw new ChromaKeyUnsupportedError();
+      }
+      this.backend = createCanvas2DBackend(ctx);
+    }
+    this.setParams(params);
+  }
+
+  /** Which backend is drawing, null while WebGL recovers from a failure. */
+  get backendType() {
+    return this.backend?.type ?? null;
+  }
+
+  setSource(source: ChromaKeySource | null) {
+    // Frame callbacks are registered on the previous source
+    this.cancelFrameRequest();
+    this.releaseStreamVideo();
+    if (source instanceof MediaStream) {
+      const video = document.createElement("video");
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = source;
+      video.play().catch(console.error);
+      this.streamVideo = video;
+      this.source = video;
+    } else {
+      this.source = source;
+    }
+    this.closePushedFrame();
+    this.hasNewFrame = true;
+    this.lastVideoTime = -1;
+    this.scheduleFrame();
+  }
+
+  /**
+   * Draws a frame handed over by a `MediaStreamTrackProcessor` or similar,
+   * subject to the frame rate cap. The renderer owns the frame from here on
+   * and closes it once a newer one arrives.
+   */
+  pushFrame(frame: VideoFrame) {
+    if (this.isDisposed) {
+      frame.close();
+      return;
+    }
+    this.cancelFrameRequest();
+    this.releaseStreamVideo();
+    this.closePushedFrame();
+    this.source = frame;
+    this.pushedFrame = frame;
+    this.handleFrame(performance.now(), true);
+  }
+
+  setParams(params: Partial<ChromaKeyParams>) {
+    this.params = { ...this.params, ...params };
+    this.updateBackgroundMedia();
+    this.requestRedraw();
+  }
+
+  getParams() {
+    return this.params;
+  }
+
+  setMaxFps(maxFps: number) {
+    this.maxFps = maxFps;
+  }
+
+  getMetrics() {
+    return { ...this.metrics.snapshot(), maxFps: this.maxFps };
+  }
+
+  resetMetrics() {
+    this.metrics.reset();
+  }
+
+  start() {
+    if (this.isRunning || this.isDisposed) return;
+    this.isRunning = true;
+    this.scheduleFrame();
+  }
+
+  stop() {
+    this.isRunning = false;
+    this.cancelFrameRequest();
+    if (this.redrawRequest !== null) {
+      cancelFrame(this.redrawRequest);
+      this.redrawRequest = null;
+    }
+  }
+
+  /**
+   * Draws the current source frame once, regardless of the frame rate cap.
+   * Returns false when nothing could be drawn: no frame yet, or the WebGL
+   * context is lost.
+   */
+  render() {
+    return this.draw(performance.now(), true);
+  }
+
+  /**
+   * Stream of the keyed output, for recording or forwarding. Only available
+   * for on-screen canvases.
+   */
+  captureStream(frameRate?: number) {
+    if (
+      typeof HTMLCanvasElement === "undefined" ||
+      !(this.canvas instanceof HTMLCanvasElement)
+    ) {
+      throw new Error("captureStream is only available for HTMLCanvasElement");
+    }
+    return this.canvas.captureStream(frameRate);
+  }
+
+  dispose() {
+    if (this.isDisposed) return;
+    this.stop();
+    this.isDisposed = true;
+    const target = this.canvas as EventTarget;
+    target.removeEventListener("webglcontextlost", this.handleContextLost);
+    target.removeEventListener(
+      "webglcontextrestored",
+      this.handleContextRestored,
+    );
+    this.releaseStreamVideo();
+    this.closePushedFrame();
+    releaseBackgroundMedia(this.backgroundMedia);
+    this.backgroundMedia = null;
+    this.source = null;
+    this.backend?.dispose();
+    this.backend = null;
+  }
+
+  // Video sources with frame callbacks drive the loop themselves; anything
+  // else is polled once per display frame
+  private scheduleFrame() {
+    if (!this.isRunning || this.frameRequest) return;
+    const { source } = this;
+    if (supportsVideoFrameCallback(source)) {
+      const id = source.requestVideoFrameCallback((now) => {
+        this.frameRequest = null;
+        this.handleFrame(now, true);
+        this.scheduleFrame();
+      });
+      this.frameRequest = {
+        cancel: () => source.cancelVideoFrameCallback(id),
+      };
+    } else {
+      const id = requestFrame((now) => {
+        this.frameRequest = null;
+        this.handleFrame(now, this.pollNewFrame());
+        this.scheduleFrame();
+      });
+      this.frameRequest = { cancel: () => cancelFrame(id) };
+    }
+  }
+
+  private cancelFrameRequest() {
+    this.frameRequest?.cancel();
+    this.frameRequest = null;
+  }
+
+  // Without frame callbacks, a video has a new frame once its time moves
+  private pollNewFrame() {
+    const { source } = this;
+    if (!isVideoElement(source)) return false;
+    if (source.currentTime === this.lastVideoTime) return false;
+    this.lastVideoTime = source.currentTime;
+    return true;
+  }
+
+  // Redraws the current frame for new settings, even when the source is
+  // paused and produces no frames
+  private requestRedraw() {
+    this.isFrameDirty = true;
+    if (!this.isRunning || this.redrawRequest !== null) return;
+    this.redrawRequest = requestFrame((now) => {
+      this.redrawRequest = null;
+      this.handleFrame(now, false);
+    });
+  }
+
+  private handleFrame(now: number, isNewFrame: boolean) {
+    if (isNewFrame) this.hasNewFrame = true;
+    if (!this.hasNewFrame && !this.isFrameDirty) return;
+
+    // Slow backends (the Canvas2D keyer) lower the rate further on their own
+    const minInterval = Math.max(
+      1000 / this.maxFps,
+      this.metrics.getAverageFrameTime(),
+    );
+    if (now - this.lastFrameTime < minInterval - FRAME_INTERVAL_TOLERANCE_MS) {
+      if (isNewFrame) this.metrics.recordSkip();
+      // A paused source sends no more frames, so retry settings changes
+      if (this.isFrameDirty) this.requestRedraw();
+      return;
+    }
+    this.draw(now, this.hasNewFrame);
+  }
+
+  private draw(now: number, isNewFrame: boolean) {
+    const { canvas, source, backend } = this;
+    if (this.isDisposed || this.isContextLost || !backend) return false;
+    if (!source || !isSourceReady(source)) return false;
+
+    const drawStart = performance.now();
+    const [width, height] = getSourceSize(source);
+    // Assigning the size clears the canvas, even when it is unchanged
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    backend.draw({
+      source,
+      width,
+      height,
+      isNewFrame,
+      params: this.params,
+      background: this.backgroundMedia,
+    });
+    this.metrics.recordFrame(now, performance.now() - drawStart);
+    this.lastFrameTime = now;
+    this.hasNewFrame = false;
+    this.isFrameDirty = false;
+    return true;
+  }
+
+  private handleContextLost = (event: Event) => {
+    // Without preventDefault the browser never restores the context
+    event.preventDefault();
+    this.isContextLost = true;
+  };
+
+  // Every GL resource died with the old context, so build them all again
+  private handleContextRestored = () => {
+    this.isContextLost = false;
+    if (!this.gl || this.isDisposed) return;
+    try {
+      this.backend = createWebGLBackend(this.gl);
+      this.requestRedraw();
+    } catch (error) {
+      this.backend = null;
+      this.onError(error as Error);
+    }
+  };
+
+  private closePushedFrame() {
+    this.pushedFrame?.close();
+    this.pushedFrame = null;
+  }
+
+  private releaseStreamVideo() {
+    if (this.streamVideo) {
+      this.streamVideo.pause();
+      this.streamVideo.srcObject = null;
+      this.streamVideo = null;
+    }
+  }
+
+  // Reloads image/video backgrounds only when their source changes
+  private updateBackgroundMedia() {
+    const { background } = this.params.compositing;
+    const key =
+      "src" in background && background.src
+        ? `${background.type}:${background.src}`
+        : null;
+    if (key === this.backgroundKey) return;
+
+    this.backgroundKey = key;
+    releaseBackgroundMedia(this.backgroundMedia);
+    this.backgroundMedia = null;
+    if (!key) return;
+
+    loadBackgroundMedia(background)
+      .then((media) => {
+        if (this.backgroundKey === key && !this.isDisposed) {
+          this.backgroundMedia = media;
+          this.requestRedraw();
+        } else {
+          releaseBackgroundMedia(media);
+        }
+      })
+      .catch(console.error);
+  }
+}
@@ -0,0 +1,146 @@
+import { DEFAULT_MAX_FPS } from "./ChromaKeyRenderer";
+import type { ChromaKeyBackendType, ChromaKeyParams } from "./backend";
+// Inlined so the embeddable script, which may be hosted on another origin,
+// can start the worker without a separate file
+import ChromaKeyWorker from "./chromaKey.worker.ts?worker&inline";
+import { DEFAULT_COMPOSITING_SETTINGS } from "./compositing";
+import { ChromaKeyUnsupportedError } from "./errors";
+import type { ChromaKeyMetrics } from "./frameMetrics";
+import { DEFAULT_CHROMA_KEY_SETTINGS } from "./settings";
+import type {
+  ChromaKeyWorkerRequest,
+  ChromaKeyWorkerResponse,
+} from "./workerProtocol";
+
+// Not in the DOM typings yet; only Chromium ships it so far
+type MediaStreamTrackProcessorConstructor = new (init: {
+  track: MediaStreamTrack;
+}) => { readable: ReadableStream<VideoFrame> };
+
+const getTrackProcessor = () =>
+  (
+    globalThis as {
+      MediaStreamTrackProcessor?: MediaStreamTrackProcessorConstructor;
+    }
+  ).MediaStreamTrackProcessor;
+
+export type ChromaKeyWorkerRendererOptions = Partial<ChromaKeyParams> & {
+  maxFps?: number;
+  /** Called once the worker has set up its backend. */
+  onReady?: (backend: ChromaKeyBackendType | null) => void;
+  /** Any failure in the worker; the caller should fall back to the page. */
+  onError?: (error: Error) => void;
+};
+
+/**
+ * Keys a video track off the main thread. Frames go from a
+ * `MediaStreamTrackProcessor` straight to a worker that renders them with a
+ * `ChromaKeyRenderer` on the canvas' OffscreenCanvas, so keying never
+ * competes with the page's UI.
+ *
+ * The canvas is handed over for good: after a failure, fall back with a
+ * fresh canvas. Video backgrounds need the main thread and fail here.
+ */
+export class ChromaKeyWorkerRenderer {
+  static isSupported() {
+    return (
+      typeof Worker !== "undefined" &&
+      typeof OffscreenCanvas !== "undefined" &&
+      typeof HTMLCanvasElement.prototype.transferControlToOffscreen ===
+        "function" &&
+      !!getTrackProcessor()
+    );
+  }
+
+  private readonly worker: Worker;
+  private params: ChromaKeyParams;
+  private metrics: (ChromaKeyMetrics & { maxFps: number }) | null = null;
+  private backend: ChromaKeyBackendType | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    track: MediaStreamTrack,
+    options: ChromaKeyWorkerRendererOptions = {},
+  ) {
+    const TrackProcessor = getTrackProcessor();
+    if (!TrackProcessor || !ChromaKeyWorkerRenderer.isSupported()) {
+      throw new ChromaKeyUnsupportedError(
+        "Worker rendering is not supported in this browser",
+      );
+    }
+    const {
+      chromaKey = DEFAULT_CHROMA_KEY_SETTINGS,
+      compositing = DEFAULT_COMPOSITING_SETTINGS,
+      maxFps = DEFAULT_MAX_FPS,
+      onReady,
+      onError = console.error,
+    } = options;
+    this.params = { chromaKey, compositing };
+
+    const offscreen = canvas.transferControlToOffscreen();
+    const { readable } = new TrackProcessor({ track });
+    this.worker = new ChromaKeyWorker();
+    this.worker.addEventListener(
+      "message",
+      (event: MessageEvent<ChromaKeyWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case "ready":
+            this.backend = message.backend;
+            onReady?.(message.backend);
+            return;
+          case "metrics":
+            this.metrics = message.metrics;
+            return;
+          case "error": {
+            const error = new Error(message.message);
+            error.name = message.name;
+            onError(error);
+            return;
+          }
+        }
+      },
+    );
+    this.worker.addEventListener("error", (event) => {
+      onError(new Error(event.message || "The chroma key worker failed"));
+    });
+    this.post(
+      {
+        type: "init",
+        canvas: offscreen,
+        frames: readable,
+        params: this.params,
+        maxFps,
+      },
+      [offscreen, readable],
+    );
+  }
+
+  /** Backend the worker renders with, null until it is ready. */
+  get backendType() {
+    return this.backend;
+  }
+
+  setParams(params: Partial<ChromaKeyParams>) {
+    this.params = { ...this.params, ...params };
+    this.post({ type: "params", params: this.params });
+  }
+
+  setMaxFps(maxFps: number) {
+    this.post({ type: "maxFps", maxFps });
+  }
+
+  /** Latest metrics reported by the worker, about once per second. */
+  getMetrics() {
+    return this.metrics;
+  }
+
+  dispose() {
+    // The GL context and any pending frames go with the worker
+    this.worker.terminate();
+  }
+
+  private post(message: ChromaKeyWorkerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(message, transfer);
+  }
+}
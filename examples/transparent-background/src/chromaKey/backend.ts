@@ -0,0 +1,30 @@
+import type { BackgroundMedia, CompositingSettings } from "./compositing";
+import type { ChromaKeySettings } from "./settings";
+
+export type ChromaKeyParams = {
+  chromaKey: ChromaKeySettings;
+  compositing: CompositingSettings;
+};
+
+/** Anything a backend can draw a frame from. */
+export type FrameSource = HTMLVideoElement | ImageBitmap | VideoFrame;
+
+export type ChromaKeyFrame = {
+  source: FrameSource;
+  width: number;
+  height: number;
+  /** False when redrawing the previous frame, e.g. after a settings change. */
+  isNewFrame: boolean;
+  params: ChromaKeyParams;
+  /** Loaded image or video background, null until it is ready. */
+  background: BackgroundMedia | null;
+};
+
+export type ChromaKeyBackendType = "webgl" | "2d";
+
+/** Draws keyed frames onto the canvas its context belongs to. */
+export type ChromaKeyBackend = {
+  type: ChromaKeyBackendType;
+  draw: (frame: ChromaKeyFrame) => void;
+  dispose: () => void;
+};
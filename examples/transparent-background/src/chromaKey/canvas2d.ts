@@ -0,0 +1,107 @@
+import type { ChromaKeyBackend, ChromaKeyFrame } from "./backend";
+import { getMediaSize } from "./compositing";
+import { ChromaKeyUnsupportedError } from "./errors";
+import { keyImageData } from "./keyer";
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const createScratchContext = () => {
+  const canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(1, 1)
+      : document.createElement("canvas");
+  return canvas.getContext("2d", {
+    willReadFrequently: true,
+  }) as Context2D | null;
+};
+
+const drawBackground = (
+  ctx: Context2D,
+  { width, height, params, background: media }: ChromaKeyFrame,
+) => {
+  const { background } = params.compositing;
+  switch (background.type) {
+    case "color":
+      ctx.fillStyle = background.color;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    case "gradient": {
+      // Same geometry as a CSS linear-gradient with this angle
+      const angle = (background.angle * Math.PI) / 180;
+      const dx = Math.sin(angle);
+      const dy = -Math.cos(angle);
+      const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+      const gradient = ctx.createLinearGradient(
+        width / 2 - dx * half,
+        height / 2 - dy * half,
+        width / 2 + dx * half,
+        height / 2 + dy * half,
+      );
+      gradient.addColorStop(0, background.from);
+      gradient.addColorStop(1, background.to);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+    case "image":
+    case "video": {
+      if (!media) return;
+      // Cover the canvas, like `object-fit: cover`
+      const [mediaWidth, mediaHeight] = getMediaSize(media);
+      if (!mediaWidth || !mediaHeight) return;
+      const scale = Math.max(width / mediaWidth, height / mediaHeight);
+      const drawWidth = mediaWidth * scale;
+      const drawHeight = mediaHeight * scale;
+      ctx.drawImage(
+        media,
+        (width - drawWidth) / 2,
+        (height - drawHeight) / 2,
+        drawWidth,
+        drawHeight,
+      );
+      return;
+    }
+  }
+};
+
+/**
+ * Keys frames on the CPU with `keyImageData`, for devices without WebGL.
+ * Much slower than the shader and without light wrap, but the replica
+ * still shows up keyed and composited.
+ */
+export const createCanvas2DBackend = (ctx: Context2D): ChromaKeyBackend => {
+  const scratch = createScratchContext();
+  if (!scratch) {
+    throw new ChromaKeyUnsupportedError();
+  }
+
+  return {
+    type: "2d",
+    draw: (frame) => {
+      const { source, width, height, params } = frame;
+      const scratchCanvas = scratch.canvas;
+      if (scratchCanvas.width !== width || scratchCanvas.height !== height) {
+        scratchCanvas.width = width;
+        scratchCanvas.height = height;
+      }
+      scratch.drawImage(source, 0, 0, width, height);
+      const image = scratch.getImageData(0, 0, width, height);
+      scratch.putImageData(keyImageData(image, params.chromaKey), 0, 0);
+
+      const { scale, offsetX, offsetY } = params.compositing;
+      ctx.clearRect(0, 0, width, height);
+      drawBackground(ctx, frame);
+      ctx.drawImage(
+        scratchCanvas,
+        (0.5 + offsetX - scale / 2) * width,
+        (0.5 + offsetY - scale / 2) * height,
+        scale * width,
+        scale * height,
+      );
+    },
+    dispose: () => {
+      scratch.canvas.width = 0;
+      scratch.canvas.height = 0;
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import { ChromaKeyRenderer } from "./ChromaKeyRenderer";
+import type {
+  ChromaKeyWorkerRequest,
+  ChromaKeyWorkerResponse,
+} from "./workerProtocol";
+
+/*
+ * Runs a ChromaKeyRenderer on an OffscreenCanvas, fed with the VideoFrames
+ * of a MediaStreamTrackProcessor. See ChromaKeyWorkerRenderer for the page
+ * side.
+ */
+
+const METRICS_INTERVAL_MS = 1000;
+
+let renderer: ChromaKeyRenderer | null = null;
+
+const post = (message: ChromaKeyWorkerResponse) => self.postMessage(message);
+
+const reportError = (error: unknown) => {
+  const { name, message } =
+    error instanceof Error ? error : new Error(String(error));
+  post({ type: "error", name, message });
+};
+
+const readFrames = async (frames: ReadableStream<VideoFrame>) => {
+  const reader = frames.getReader();
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      if (renderer) {
+        renderer.pushFrame(value);
+      } else {
+        value.close();
+      }
+    }
+  } catch (error) {
+    reportError(error);
+  }
+};
+
+self.addEventListener(
+  "message",
+  (event: MessageEvent<ChromaKeyWorkerRequest>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "init": {
+        try {
+          renderer = new ChromaKeyRenderer(message.canvas, {
+            ...message.params,
+            maxFps: message.maxFps,
+            onError: reportError,
+          });
+        } catch (error) {
+          reportError(error);
+          return;
+        }
+        post({ type: "ready", backend: renderer.backendType });
+        readFrames(message.frames);
+        setInterval(() => {
+          if (renderer) {
+            post({ type: "metrics", metrics: renderer.getMetrics() });
+          }
+        }, METRICS_INTERVAL_MS);
+        return;
+      }
+      case "params":
+        renderer?.setParams(message.params);
+        return;
+      case "maxFps":
+        renderer?.setMaxFps(message.maxFps);
+        return;
+    }
+  },
+);
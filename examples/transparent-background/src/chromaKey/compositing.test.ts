@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { getContainRect, getCoverUvScale } from "./compositing";
+
+describe("getContainRect", () => {
+  it("letterboxes media wider than the box", () => {
+    expect(getContainRect(400, 400, 1920, 1080)).toEqual({
+      x: 0,
+      y: 87.5,
+      width: 400,
+      height: 225,
+    });
+  });
+
+  it("pillarboxes media taller than the box", () => {
+    expect(getContainRect(400, 225, 1080, 1080)).toEqual({
+      x: 87.5,
+      y: 0,
+      width: 225,
+      height: 225,
+    });
+  });
+
+  it("fills a box of the same aspect ratio", () => {
+    expect(getContainRect(640, 360, 1920, 1080)).toEqual({
+      x: 0,
+      y: 0,
+      width: 640,
+      height: 360,
+    });
+  });
+});
+
+describe("getCoverUvScale", () => {
+  it("crops the sides of media wider than the canvas", () => {
+    expect(getCoverUvScale(100, 100, 200, 100)).toEqual([0.5, 1]);
+  });
+
+  it("crops the top and bottom of media taller than the canvas", () => {
+    expect(getCoverUvScale(200, 100, 100, 100)).toEqual([1, 0.5]);
+  });
+});
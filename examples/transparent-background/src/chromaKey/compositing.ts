@@ -0,0 +1,188 @@
+import { type RGB, toKeyColorUniform } from "./settings";
+
+export type ReplicaBackground =
+  | { type: "none" }
+  | { type: "color"; color: string }
+  /** Linear gradient from `from` to `to`, with a CSS-like angle in degrees. */
+  | { type: "gradient"; from: string; to: string; angle: number }
+  | { type: "image"; src: string }
+  | { type: "video"; src: string };
+
+export type BackgroundType = ReplicaBackground["type"];
+
+export type CompositingSettings = {
+  background: ReplicaBackground;
+  /** Size of the replica relative to the canvas, 1 fills it. */
+  scale: number;
+  /** Horizontal offset of the replica, as a fraction of the canvas width. */
+  offsetX: number;
+  /** Vertical offset of the replica, as a fraction of the canvas height. */
+  offsetY: number;
+  /** How much the background bleeds into the replica's edges (0 - 1). */
+  lightWrap: number;
+};
+
+export const DEFAULT_COMPOSITING_SETTINGS: CompositingSettings = {
+  background: { type: "none" },
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+  lightWrap: 0,
+};
+
+/** Value of the shader's `u_backgroundMode` uniform. */
+export const getBackgroundMode = (background: ReplicaBackground) => {
+  switch (background.type) {
+    case "none":
+      return 0;
+    case "color":
+      return 1;
+    case "gradient":
+      return 2;
+    case "image":
+    case "video":
+      return 3;
+  }
+};
+
+/** Values of the shader's `u_backgroundColor` and `u_gradientColor`. */
+export const getBackgroundColors = (
+  background: ReplicaBackground,
+): [RGB, RGB] => {
+  switch (background.type) {
+    case "color":
+      return [toKeyColorUniform(background.color), [0, 0, 0]];
+    case "gradient":
+      return [
+        toKeyColorUniform(background.from),
+        toKeyColorUniform(background.to),
+      ];
+    default:
+      return [
+        [0, 0, 0],
+        [0, 0, 0],
+      ];
+  }
+};
+
+/**
+ * Texture coordinate scale that makes media of the given size cover the
+ * canvas without distortion, like `object-fit: cover`.
+ */
+export const getCoverUvScale = (
+  canvasWidth: number,
+  canvasHeight: number,
+  mediaWidth: number,
+  mediaHeight: number,
+): [number, number] => {
+  if (!mediaWidth || !mediaHeight || !canvasWidth || !canvasHeight) {
+    return [1, 1];
+  }
+  const canvasAspect = canvasWidth / canvasHeight;
+  const mediaAspect = mediaWidth / mediaHeight;
+  return canvasAspect > mediaAspect
+    ? [1, mediaAspect / canvasAspect]
+    : [canvasAspect / mediaAspect, 1];
+};
+
+/**
+ * Rectangle filled by media of the given size inside a box, relative to
+ * the box's top-left corner, when fitted like `object-fit: contain`.
+ */
+export const getContainRect = (
+  boxWidth: number,
+  boxHeight: number,
+  mediaWidth: number,
+  mediaHeight: number,
+) => {
+  const scale = Math.min(boxWidth / mediaWidth, boxHeight / mediaHeight);
+  const width = mediaWidth * scale;
+  const height = mediaHeight * scale;
+  return {
+    x: (boxWidth - width) / 2,
+    y: (boxHeight - height) / 2,
+    width,
+    height,
+  };
+};
+
+export type BackgroundMedia = HTMLImageElement | HTMLVideoElement | ImageBitmap;
+
+/**
+ * `instanceof HTMLVideoElement` throws in workers, where the class does not
+ * exist; this works in both.
+ */
+export const isVideoElement = (value: unknown): value is HTMLVideoElement =>
+  typeof HTMLVideoElement !== "undefined" && value instanceof HTMLVideoElement;
+
+// Workers have no <img>, but can decode images into bitmaps
+const loadBackgroundBitmap = async (src: string) => {
+  const response = await fetch(src, { mode: "cors" });
+  if (!response.ok) {
+    throw new Error(`Failed to load background image ${src}`);
+  }
+  return createImageBitmap(await response.blob());
+};
+
+/**
+ * Creates the element backing an image or video background. Resolves with
+ * null for backgrounds drawn entirely in the shader. Outside the main
+ * thread images load as bitmaps and video backgrounds are unavailable.
+ */
+export const loadBackgroundMedia = (
+  background: ReplicaBackground,
+): Promise<BackgroundMedia | null> => {
+  const hasDocument = typeof document !== "undefined";
+  if (background.type === "image" && !hasDocument) {
+    return loadBackgroundBitmap(background.src);
+  }
+  if (background.type === "video" && !hasDocument) {
+    return Promise.reject(
+      new Error("Video backgrounds are only available on the main thread"),
+    );
+  }
+  if (background.type === "image") {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      // Cross-origin media can only be uploaded to WebGL with CORS
+      image.crossOrigin = "anonymous";
+      image.onload = () => resolve(image);
+      image.onerror = () =>
+        reject(new Error(`Failed to load background image ${background.src}`));
+      image.src = background.src;
+    });
+  }
+  if (background.type === "video") {
+    return new Promise((resolve, reject) => {
+      const video = document.createElement("video");
+      video.crossOrigin = "anonymous";
+      video.muted = true;
+      video.loop = true;
+      video.playsInline = true;
+      video.onloadeddata = () => {
+        video.play().catch(console.error);
+        resolve(video);
+      };
+      video.onerror = () =>
+        reject(new Error(`Failed to load background video ${background.src}`));
+      video.src = background.src;
+    });
+  }
+  return Promise.resolve(null);
+};
+
+export const releaseBackgroundMedia = (media: BackgroundMedia | null) => {
+  if (isVideoElement(media)) {
+    media.pause();
+    media.removeAttribute("src");
+    media.load();
+  } else if (media instanceof ImageBitmap) {
+    media.close();
+  }
+};
+
+export const getMediaSize = (media: BackgroundMedia) => {
+  if (isVideoElement(media)) return [media.videoWidth, media.videoHeight];
+  if (media instanceof ImageBitmap) return [media.width, media.height];
+  return [media.naturalWidth, media.naturalHeight];
+};
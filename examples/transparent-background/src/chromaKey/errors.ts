@@ -0,0 +1,34 @@
+/**
+ * Thrown when a shader fails to compile. `log` is the driver's info log,
+ * which names the offending line.
+ */
+export class ShaderCompileError extends Error {
+  readonly shaderType: "vertex" | "fragment";
+  readonly log: string;
+
+  constructor(shaderType: "vertex" | "fragment", log: string) {
+    super(`Failed to compile the ${shaderType} shader: ${log}`);
+    this.name = "ShaderCompileError";
+    this.shaderType = shaderType;
+    this.log = log;
+  }
+}
+
+/** Thrown when the chroma key program fails to link. */
+export class ProgramLinkError extends Error {
+  readonly log: string;
+
+  constructor(log: string) {
+    super(`Failed to link the chroma key program: ${log}`);
+    this.name = "ProgramLinkError";
+    this.log = log;
+  }
+}
+
+/** Thrown when a canvas offers none of the rendering contexts asked for. */
+export class ChromaKeyUnsupportedError extends Error {
+  constructor(message = "The canvas supports neither WebGL nor 2D rendering") {
+    super(message);
+    this.name = "ChromaKeyUnsupportedError";
+  }
+}
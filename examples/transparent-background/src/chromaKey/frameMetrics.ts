@@ -0,0 +1,66 @@
+export type ChromaKeyMetrics = {
+  /** Frames drawn per second over the sample window. */
+  fps: number;
+  /** Average time spent drawing a frame, in milliseconds. */
+  frameTime: number;
+  /** Slowest draw in the sample window, in milliseconds. */
+  maxFrameTime: number;
+  renderedFrames: number;
+  /** Source frames skipped to stay under the frame rate cap. */
+  skippedFrames: number;
+};
+
+const DEFAULT_WINDOW_SIZE = 60;
+
+/**
+ * Rolling frame statistics over the last `windowSize` drawn frames. Cheap
+ * enough to update on every frame.
+ */
+export const createFrameMetrics = (windowSize = DEFAULT_WINDOW_SIZE) => {
+  const timestamps: number[] = [];
+  const drawTimes: number[] = [];
+  let renderedFrames = 0;
+  let skippedFrames = 0;
+
+  const push = (values: number[], value: number) => {
+    values.push(value);
+    if (values.length > windowSize) values.shift();
+  };
+
+  const getAverageFrameTime = () =>
+    drawTimes.length
+      ? drawTimes.reduce((sum, time) => sum + time, 0) / drawTimes.length
+      : 0;
+
+  return {
+    recordFrame: (timestamp: number, drawTime: number) => {
+      push(timestamps, timestamp);
+      push(drawTimes, drawTime);
+      renderedFrames++;
+    },
+    recordSkip: () => {
+      skippedFrames++;
+    },
+    getAverageFrameTime,
+    snapshot: (): ChromaKeyMetrics => {
+      const elapsed = timestamps.length
+        ? timestamps[timestamps.length - 1] - timestamps[0]
+        : 0;
+      return {
+        fps: elapsed > 0 ? ((timestamps.length - 1) * 1000) / elapsed : 0,
+        frameTime: getAverageFrameTime(),
+        maxFrameTime: drawTimes.length ? Math.max(...drawTimes) : 0,
+        renderedFrames,
+        skippedFrames,
+      };
+    },
+    reset: () => {
+      timestamps.length = 0;
+      drawTimes.length = 0;
+      renderedFrames = 0;
+      skippedFrames = 0;
+    },
+  };
+};
+
+export type FrameMetrics = ReturnType<typeof createFrameMetrics>;
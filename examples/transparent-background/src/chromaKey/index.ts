@@ -0,0 +1,11 @@
+export * from "./settings";
+export * from "./compositing";
+export * from "./keyer";
+export * from "./sampleVideoColor";
+export * from "./shaders";
+export * from "./useChromaKeySettings";
+export * from "./ChromaKeyRenderer";
+export * from "./backend";
+export * from "./errors";
+export * from "./frameMetrics";
+export * from "./ChromaKeyWorkerRenderer";
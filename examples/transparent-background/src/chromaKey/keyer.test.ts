@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  colorDistance,
+  despill,
+  erodeAlpha,
+  featherAlpha,
+  keyAlpha,
+  keyImageData,
+} from "./keyer";
+import {
+  type ChromaKeySettings,
+  DEFAULT_CHROMA_KEY_SETTINGS,
+  type RGB,
+} from "./settings";
+
+const GREEN: RGB = [0, 1, 0];
+const BLUE: RGB = [0, 0, 1];
+const MAGENTA: RGB = [1, 0, 1];
+const GRAY: RGB = [0.5, 0.5, 0.5];
+
+const settings: ChromaKeySettings = {
+  ...DEFAULT_CHROMA_KEY_SETTINGS,
+  keyColor: "#00ff00",
+  similarity: 0.3,
+  smoothness: 0.1,
+  distanceMode: "rgb",
+};
+
+const expectColorCloseTo = (actual: RGB, expected: RGB) => {
+  actual.forEach((channel, index) => {
+    expect(channel).toBeCloseTo(expected[index], 5);
+  });
+};
+
+describe("colorDistance", () => {
+  it("is zero for the key color in every mode", () => {
+    expect(colorDistance(GREEN, GREEN, "rgb")).toBe(0);
+    expect(colorDistance(GREEN, GREEN, "ycbcr")).toBe(0);
+    expect(colorDistance(GREEN, GREEN, "hsv")).toBe(0);
+  });
+
+  it("measures euclidean distance in rgb mode", () => {
+    expect(colorDistance(MAGENTA, GREEN, "rgb")).toBeCloseTo(Math.sqrt(3));
+    expect(colorDistance([0.35, 1, 0], GREEN, "rgb")).toBeCloseTo(0.35);
+  });
+
+  it("ignores brightness in ycbcr mode", () => {
+    expect(colorDistance([0.2, 0.2, 0.2], [0.9, 0.9, 0.9], "ycbcr")).toBe(0);
+    // Chroma of pure green: cb = -0.587 * 0.565, cr = -0.587 * 0.713
+    expect(colorDistance(GRAY, GREEN, "ycbcr")).toBeCloseTo(0.534, 3);
+  });
+
+  it("weighs hue by saturation in hsv mode", () => {
+    // A third of the hue circle apart at full saturation and value
+    expect(colorDistance(BLUE, GREEN, "hsv")).toBeCloseTo(2 / 3);
+    // Hue doesn't count for unsaturated colors
+    expect(colorDistance([0.5, 0.5, 0.5], [1, 1, 1], "hsv")).toBeCloseTo(0.25);
+  });
+});
+
+describe("keyAlpha", () => {
+  it("keys out the key color", () => {
+    expect(keyAlpha(GREEN, GREEN, settings)).toBe(0);
+  });
+
+  it("keeps colors past the ramp", () => {
+    expect(keyAlpha(MAGENTA, GREEN, settings)).toBe(1);
+  });
+
+  it("ramps smoothly between similarity and similarity + smoothness", () => {
+    expect(keyAlpha([0.3, 1, 0], GREEN, settings)).toBeCloseTo(0);
+    expect(keyAlpha([0.35, 1, 0], GREEN, settings)).toBeCloseTo(0.5);
+    expect(keyAlpha([0.4, 1, 0], GREEN, settings)).toBeCloseTo(1);
+  });
+
+  it("keeps a hard edge when smoothness is zero", () => {
+    const hard = { ...settings, smoothness: 0 };
+    expect(keyAlpha([0.29, 1, 0], GREEN, hard)).toBe(0);
+    expect(keyAlpha([0.31, 1, 0], GREEN, hard)).toBe(1);
+  });
+});
+
+describe("despill", () => {
+  it("turns the key color into gray of the same luma", () => {
+    expectColorCloseTo(despill(GREEN, GREEN, 1), [0.587, 0.587, 0.587]);
+  });
+
+  it("removes part of the spill at partial strength", () => {
+    const [r, g, b] = despill(GREEN, GREEN, 0.5);
+    expect(g).toBeLessThan(1);
+    expect(g).toBeGreaterThan(0.587);
+    expect(r).toBeCloseTo(b, 5);
+  });
+
+  it("leaves neutral colors alone", () => {
+    expectColorCloseTo(despill(GRAY, GREEN, 1), GRAY);
+  });
+
+  it("leaves colors opposite the key color alone", () => {
+    expectColorCloseTo(despill(MAGENTA, GREEN, 1), MAGENTA);
+  });
+
+  it("does nothing at zero strength", () => {
+    expectColorCloseTo(despill([0.2, 0.9, 0.3], GREEN, 0), [0.2, 0.9, 0.3]);
+  });
+});
+
+describe("erodeAlpha", () => {
+  it("takes the smallest alpha of the pixel and its neighbors", () => {
+    expect(erodeAlpha(1, [1, 0.5, 1, 1])).toBe(0.5);
+    expect(erodeAlpha(0.2, [1, 1, 1, 1])).toBe(0.2);
+    expect(erodeAlpha(1, [1, 1, 1, 1])).toBe(1);
+  });
+});
+
+describe("featherAlpha", () => {
+  it("weighs the pixel twice as much as each neighbor", () => {
+    expect(featherAlpha(1, [0, 0, 0, 0])).toBeCloseTo(1 / 3);
+    expect(featherAlpha(0, [1, 1, 1, 1])).toBeCloseTo(2 / 3);
+  });
+
+  it("leaves uniform areas unchanged", () => {
+    expect(featherAlpha(0.5, [0.5, 0.5, 0.5, 0.5])).toBeCloseTo(0.5);
+  });
+});
+
+describe("keyImageData", () => {
+  it("keys out green pixels and keeps the rest", () => {
+    const image = {
+      width: 2,
+      height: 1,
+      data: new Uint8ClampedArray([0, 255, 0, 255, 255, 0, 255, 255]),
+    } as ImageData;
+
+    keyImageData(image, { ...settings, despill: 0 });
+
+    expect(image.data[3]).toBe(0);
+    expect(image.data[7]).toBe(255);
+  });
+
+  it("feathers the edge between keyed and kept pixels", () => {
+    const image = {
+      width: 2,
+      height: 1,
+      data: new Uint8ClampedArray([0, 255, 0, 255, 255, 0, 255, 255]),
+    } as ImageData;
+
+    keyImageData(image, { ...settings, despill: 0, feather: 1 });
+
+    // (0 * 2 + 1 + 0 + 0 + 0) / 6 and (1 * 2 + 1 + 0 + 1 + 1) / 6
+    expect(image.data[3]).toBeCloseTo(255 / 6, -1);
+    expect(image.data[7]).toBeCloseTo((255 * 5) / 6, -1);
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  type ChromaKeySettings,
+  type DistanceMode,
+  type RGB,
+  toKeyColorUniform,
+} from "./settings";
+
+/*
+ * CPU implementation of the keying stages in `fragmentShaderSource`. The
+ * math matches the shader line for line, so these functions document and
+ * pin down its behavior on known pixel values. Colors are normalized RGB.
+ */
+
+export const rgbToYCbCr = ([r, g, b]: RGB): RGB => {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  return [y, (b - y) * 0.565, (r - y) * 0.713];
+};
+
+export const yCbCrToRgb = ([y, cb, cr]: RGB): RGB => {
+  const r = y + cr / 0.713;
+  const b = y + cb / 0.565;
+  const g = (y - 0.299 * r - 0.114 * b) / 0.587;
+  return [r, g, b];
+};
+
+export const rgbToHsv = ([r, g, b]: RGB): RGB => {
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) {
+      h = ((((g - b) / delta) % 6) + 6) % 6;
+    } else if (max === g) {
+      h = (b - r) / delta + 2;
+    } else {
+      h = (r - g) / delta + 4;
+    }
+    h /= 6;
+  }
+  return [h, max > 0 ? delta / max : 0, max];
+};
+
+const length = (values: number[]) =>
+  Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+};
+
+export const colorDistance = (
+  color: RGB,
+  keyColor: RGB,
+  mode: DistanceMode,
+) => {
+  if (mode === "ycbcr") {
+    const [, cb, cr] = rgbToYCbCr(color);
+    const [, keyCb, keyCr] = rgbToYCbCr(keyColor);
+    return length([cb - keyCb, cr - keyCr]);
+  }
+  if (mode === "hsv") {
+    const [h, s, v] = rgbToHsv(color);
+    const [keyH, keyS, keyV] = rgbToHsv(keyColor);
+    let dh = Math.abs(h - keyH);
+    dh = Math.min(dh, 1 - dh);
+    return length([dh * 2 * s, s - keyS, (v - keyV) * 0.5]);
+  }
+  return length([
+    color[0] - keyColor[0],
+    color[1] - keyColor[1],
+    color[2] - keyColor[2],
+  ]);
+};
+
+/** Opacity of a pixel before edge refinement: 0 keyed out, 1 kept. */
+export const keyAlpha = (
+  color: RGB,
+  keyColor: RGB,
+  { similarity, smoothness, distanceMode }: ChromaKeySettings,
+) =>
+  smoothstep(
+    similarity,
+    similarity + Math.max(smoothness, 0.001),
+    colorDistance(color, keyColor, distanceMode),
+  );
+
+/**
+ * Removes the key color's chroma from `color`, keeping its luma, so green
+ * light reflected onto hair and skin turns neutral.
+ */
+export const despill = (color: RGB, keyColor: RGB, strength: number): RGB => {
+  const [y, cb, cr] = rgbToYCbCr(color);
+  const [, keyCb, keyCr] = rgbToYCbCr(keyColor);
+  const keyLength = length([keyCb, keyCr]);
+  if (keyLength === 0) return color;
+  const [dx, dy] = [keyCb / keyLength, keyCr / keyLength];
+  const spill = Math.max(cb * dx + cr * dy, 0);
+  const [r, g, b] = yCbCrToRgb([
+    y,
+    cb - dx * spill * strength,
+    cr - dy * spill * strength,
+  ]);
+  return [clamp(r, 0, 1), clamp(g, 0, 1), clamp(b, 0, 1)];
+};
+
+/** Minimum of the pixel's alpha and its four neighbors' at `radius`. */
+export const erodeAlpha = (alpha: number, neighbors: number[]) =>
+  Math.min(alpha, ...neighbors);
+
+/** Weighted average of the pixel's alpha and its four neighbors'. */
+export const featherAlpha = (alpha: number, neighbors: number[]) =>
+  (alpha * 2 + neighbors.reduce((sum, value) => sum + value, 0)) / 6;
+
+/**
+ * Keys an RGBA image in place with the same pipeline as the shader.
+ */
+export const keyImageData = (image: ImageData, settings: ChromaKeySettings) => {
+  const { data, width, height } = image;
+  const keyColor = toKeyColorUniform(settings.keyColor);
+  const pixelCount = width * height;
+  const alphas = new Float32Array(pixelCount);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * 4;
+    alphas[i] = keyAlpha(
+      [data[offset] / 255, data[offset + 1] / 255, data[offset + 2] / 255],
+      keyColor,
+      settings,
+    );
+  }
+
+  // Alpha of the pixel at (x, y), clamped to the image edges
+  const alphaAt = (x: number, y: number) =>
+    alphas[
+      clamp(Math.round(y), 0, height - 1) * width +
+        clamp(Math.round(x), 0, width - 1)
+    ];
+  const neighborsAt = (x: number, y: number, radius: number) => [
+    alphaAt(x + radius, y),
+    alphaAt(x - radius, y),
+    alphaAt(x, y + radius),
+    alphaAt(x, y - radius),
+  ];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      let alpha = alphas[y * width + x];
+      if (settings.erode > 0) {
+        alpha = erodeAlpha(alpha, neighborsAt(x, y, settings.erode));
+      }
+      if (settings.feather > 0) {
+        alpha = featherAlpha(alpha, neighborsAt(x, y, settings.feather));
+      }
+
+      if (settings.despill > 0) {
+        const [r, g, b] = despill(
+          [data[offset] / 255, data[offset + 1] / 255, data[offset + 2] / 255],
+          keyColor,
+          settings.despill,
+        );
+        data[offset] = r * 255;
+        data[offset + 1] = g * 255;
+        data[offset + 2] = b * 255;
+      }
+      data[offset + 3] *= alpha;
+    }
+  }
+
+  return image;
+};
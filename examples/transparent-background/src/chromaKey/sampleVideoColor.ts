@@ -0,0 +1,47 @@
+import { type RGB, rgbToHex } from "./settings";
+
+const SAMPLE_SIZE = 5;
+
+/**
+ * Returns the average color, as hex, of a small square of the current video
+ * frame centered on (`x`, `y`) in video pixel coordinates. Averaging keeps
+ * compression noise from skewing the picked key color.
+ */
+export const sampleVideoColor = (
+  video: HTMLVideoElement,
+  x: number,
+  y: number,
+) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  const half = Math.floor(SAMPLE_SIZE / 2);
+  ctx.drawImage(
+    video,
+    Math.max(0, x - half),
+    Math.max(0, y - half),
+    SAMPLE_SIZE,
+    SAMPLE_SIZE,
+    0,
+    0,
+    SAMPLE_SIZE,
+    SAMPLE_SIZE,
+  );
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  const sum: RGB = [0, 0, 0];
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+  }
+  return rgbToHex([
+    Math.round(sum[0] / pixels),
+    Math.round(sum[1] / pixels),
+    Math.round(sum[2] / pixels),
+  ]);
+};
@@ -0,0 +1,105 @@
+export type RGB = [number, number, number];
+
+/**
+ * Color space used to measure the distance to the key color. `ycbcr` only
+ * compares chroma, so shadows on the screen key like its lit areas.
+ */
+export type DistanceMode = "rgb" | "ycbcr" | "hsv";
+
+export const DISTANCE_MODES: readonly DistanceMode[] = ["rgb", "ycbcr", "hsv"];
+
+export type ChromaKeySettings = {
+  /** Key color as a `#rrggbb` hex string. */
+  keyColor: string;
+  /** Color distance below which pixels are fully transparent (0 - 1). */
+  similarity: number;
+  /** Width of the alpha ramp above `similarity` (0 - 1). */
+  smoothness: number;
+  distanceMode: DistanceMode;
+  /** Strength of the spill suppression (0 - 1), 0 disables it. */
+  despill: number;
+  /** Alpha erosion radius in pixels (0 - 4), 0 disables it. */
+  erode: number;
+  /** Alpha feathering radius in pixels (0 - 4), 0 disables it. */
+  feather: number;
+};
+
+export const MAX_EDGE_RADIUS = 4;
+
+export const DEFAULT_CHROMA_KEY_SETTINGS: ChromaKeySettings = {
+  // Tavus green screen
+  keyColor: "#03ff9c",
+  similarity: 0.3,
+  smoothness: 0.1,
+  distanceMode: "rgb",
+  despill: 0.5,
+  erode: 0,
+  feather: 0,
+};
+
+const STORAGE_KEY_PREFIX = "tavus:chroma-key:";
+
+/** Whether `value` is a `#rrggbb` color, the format key colors are kept in. */
+export const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+export const hexToRgb = (hex: string): RGB => {
+  const value = Number.parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = ([r, g, b]: RGB) =>
+  `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, "0")).join("")}`;
+
+/** Key color as normalized floats, ready for a `vec3` uniform. */
+export const toKeyColorUniform = (hex: string): RGB => {
+  const [r, g, b] = hexToRgb(hex);
+  return [r / 255, g / 255, b / 255];
+};
+
+const getStorageKey = (replicaId: string | null) =>
+  `${STORAGE_KEY_PREFIX}${replicaId ?? "default"}`;
+
+const clampSetting = (value: unknown, fallback: number, max = 1) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(max, Math.max(0, value))
+    : fallback;
+
+/**
+ * Reads the settings saved for a replica, falling back to the defaults for
+ * anything missing or malformed.
+ */
+export const loadChromaKeySettings = (
+  replicaId: string | null,
+): ChromaKeySettings => {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(getStorageKey(replicaId)) ?? "null",
+    ) as Partial<ChromaKeySettings> | null;
+    if (!stored) return DEFAULT_CHROMA_KEY_SETTINGS;
+    const defaults = DEFAULT_CHROMA_KEY_SETTINGS;
+    return {
+      keyColor:
+        typeof stored.keyColor === "string" && isHexColor(stored.keyColor)
+          ? stored.keyColor
+          : defaults.keyColor,
+      similarity: clampSetting(stored.similarity, defaults.similarity),
+      smoothness: clampSetting(stored.smoothness, defaults.smoothness),
+      distanceMode:
+        stored.distanceMode && DISTANCE_MODES.includes(stored.distanceMode)
+          ? stored.distanceMode
+          : defaults.distanceMode,
+      despill: clampSetting(stored.despill, defaults.despill),
+      erode: clampSetting(stored.erode, defaults.erode, MAX_EDGE_RADIUS),
+      feather: clampSetting(stored.feather, defaults.feather, MAX_EDGE_RADIUS),
+    };
+  } catch {
+    return DEFAULT_CHROMA_KEY_SETTINGS;
+  }
+};
+
+export const saveChromaKeySettings = (
+  replicaId: string | null,
+  settings: ChromaKeySettings,
+) => {
+  localStorage.setItem(getStorageKey(replicaId), JSON.stringify(settings));
+};
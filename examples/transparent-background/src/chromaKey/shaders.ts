@@ -0,0 +1,168 @@
+export const vertexShaderSource = `
+  attribute vec2 a_position;
+  attribute vec2 a_texCoord;
+  varying vec2 v_texCoord;
+  void main() {
+    gl_Position = vec4(a_position, 0, 1);
+    v_texCoord = vec2(a_texCoord.x, 1.0 - a_texCoord.y);
+  }
+`;
+
+/**
+ * Keying pipeline, each stage mirrored by the functions in `keyer.ts`:
+ * 1. distance to the key color in RGB, YCbCr (chroma only) or HSV space
+ * 2. soft alpha ramp between similarity and similarity + smoothness
+ * 3. optional alpha erosion and feathering from neighboring texels
+ * 4. optional despill, removing the key's chroma from what remains
+ *
+ * The keyed replica is then optionally scaled, moved and composited over a
+ * background (solid color, gradient or texture) with an optional light wrap
+ * that bleeds the background into the replica's edges.
+ */
+export const fragmentShaderSource = `
+  precision mediump float;
+  uniform sampler2D u_image;
+  varying vec2 v_texCoord;
+  uniform vec3 u_keyColor;
+  uniform float u_similarity;
+  uniform float u_smoothness;
+  uniform int u_distanceMode;
+  uniform float u_despill;
+  uniform float u_erode;
+  uniform float u_feather;
+  uniform vec2 u_texelSize;
+
+  uniform int u_backgroundMode;
+  uniform sampler2D u_background;
+  uniform vec2 u_backgroundUvScale;
+  uniform vec3 u_backgroundColor;
+  uniform vec3 u_gradientColor;
+  uniform float u_gradientAngle;
+  uniform float u_replicaScale;
+  uniform vec2 u_replicaOffset;
+  uniform float u_lightWrap;
+
+  vec3 rgbToYCbCr(vec3 c) {
+    float y = 0.299 * c.r + 0.587 * c.g + 0.114 * c.b;
+    return vec3(y, (c.b - y) * 0.565, (c.r - y) * 0.713);
+  }
+
+  vec3 yCbCrToRgb(vec3 c) {
+    float r = c.x + c.z / 0.713;
+    float b = c.x + c.y / 0.565;
+    float g = (c.x - 0.299 * r - 0.114 * b) / 0.587;
+    return vec3(r, g, b);
+  }
+
+  vec3 rgbToHsv(vec3 c) {
+    float maxC = max(c.r, max(c.g, c.b));
+    float minC = min(c.r, min(c.g, c.b));
+    float delta = maxC - minC;
+    float h = 0.0;
+    if (delta > 0.0) {
+      if (maxC == c.r) {
+        h = mod((c.g - c.b) / delta, 6.0);
+      } else if (maxC == c.g) {
+        h = (c.b - c.r) / delta + 2.0;
+      } else {
+        h = (c.r - c.g) / delta + 4.0;
+      }
+      h /= 6.0;
+    }
+    float s = maxC > 0.0 ? delta / maxC : 0.0;
+    return vec3(h, s, maxC);
+  }
+
+  float colorDistance(vec3 color) {
+    if (u_distanceMode == 1) {
+      return distance(rgbToYCbCr(color).yz, rgbToYCbCr(u_keyColor).yz);
+    }
+    if (u_distanceMode == 2) {
+      vec3 a = rgbToHsv(color);
+      vec3 b = rgbToHsv(u_keyColor);
+      float dh = abs(a.x - b.x);
+      dh = min(dh, 1.0 - dh);
+      // Hue is meaningless for unsaturated pixels, so weigh it by saturation
+      return length(vec3(dh * 2.0 * a.y, a.y - b.y, (a.z - b.z) * 0.5));
+    }
+    return length(color - u_keyColor);
+  }
+
+  float keyAlpha(vec2 coord) {
+    vec3 color = texture2D(u_image, coord).rgb;
+    return smoothstep(u_similarity, u_similarity + u_smoothness, colorDistance(color));
+  }
+
+  float erodeAlpha(vec2 coord, float alpha) {
+    vec2 r = u_texelSize * u_erode;
+    float neighbors = min(
+      min(keyAlpha(coord + vec2(r.x, 0.0)), keyAlpha(coord - vec2(r.x, 0.0))),
+      min(keyAlpha(coord + vec2(0.0, r.y)), keyAlpha(coord - vec2(0.0, r.y)))
+    );
+    return min(alpha, neighbors);
+  }
+
+  float featherAlpha(vec2 coord, float alpha) {
+    vec2 r = u_texelSize * u_feather;
+    float neighbors =
+      keyAlpha(coord + vec2(r.x, 0.0)) + keyAlpha(coord - vec2(r.x, 0.0)) +
+      keyAlpha(coord + vec2(0.0, r.y)) + keyAlpha(coord - vec2(0.0, r.y));
+    return (alpha * 2.0 + neighbors) / 6.0;
+  }
+
+  // Average opacity around the pixel; low values mean it sits on an edge
+  float surroundingAlpha(vec2 coord) {
+    vec2 r = u_texelSize * 6.0;
+    return (
+      keyAlpha(coord + vec2(r.x, 0.0)) + keyAlpha(coord - vec2(r.x, 0.0)) +
+      keyAlpha(coord + vec2(0.0, r.y)) + keyAlpha(coord - vec2(0.0, r.y))
+    ) / 4.0;
+  }
+
+  vec3 backgroundColor() {
+    if (u_backgroundMode == 2) {
+      // CSS-like angle: 0deg runs bottom to top, 90deg left to right
+      vec2 direction = vec2(sin(u_gradientAngle), -cos(u_gradientAngle));
+      float extent = 0.5 * (abs(direction.x) + abs(direction.y));
+      float t = clamp(dot(v_texCoord - 0.5, direction) / extent * 0.5 + 0.5, 0.0, 1.0);
+      return mix(u_backgroundColor, u_gradientColor, t);
+    }
+    if (u_backgroundMode == 3) {
+      return texture2D(u_background, (v_texCoord - 0.5) * u_backgroundUvScale + 0.5).rgb;
+    }
+    return u_backgroundColor;
+  }
+
+  vec3 despill(vec3 color) {
+    vec3 ycc = rgbToYCbCr(color);
+    vec2 keyChroma = rgbToYCbCr(u_keyColor).yz;
+    if (length(keyChroma) == 0.0) return color;
+    vec2 direction = normalize(keyChroma);
+    float spill = max(dot(ycc.yz, direction), 0.0);
+    ycc.yz -= direction * spill * u_despill;
+    return clamp(yCbCrToRgb(ycc), 0.0, 1.0);
+  }
+
+  void main() {
+    vec2 coord = (v_texCoord - 0.5 - u_replicaOffset) / u_replicaScale + 0.5;
+    bool inside = all(greaterThanEqual(coord, vec2(0.0))) && all(lessThanEqual(coord, vec2(1.0)));
+    vec4 color = inside ? texture2D(u_image, coord) : vec4(0.0);
+    float alpha = inside ? keyAlpha(coord) : 0.0;
+    if (inside && u_erode > 0.0) alpha = erodeAlpha(coord, alpha);
+    if (inside && u_feather > 0.0) alpha = featherAlpha(coord, alpha);
+    vec3 rgb = u_despill > 0.0 ? despill(color.rgb) : color.rgb;
+    alpha *= color.a;
+
+    if (u_backgroundMode == 0) {
+      gl_FragColor = vec4(rgb, alpha);
+      return;
+    }
+
+    vec3 background = backgroundColor();
+    if (inside && u_lightWrap > 0.0) {
+      float wrap = u_lightWrap * (1.0 - surroundingAlpha(coord)) * alpha;
+      rgb = mix(rgb, background, wrap);
+    }
+    gl_FragColor = vec4(mix(background, rgb, alpha), 1.0);
+  }
+`;
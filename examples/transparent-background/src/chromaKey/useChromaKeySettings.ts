@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  type ChromaKeySettings,
+  loadChromaKeySettings,
+  saveChromaKeySettings,
+} from "./settings";
+
+type SettingsState = {
+  replicaId: string | null;
+  settings: ChromaKeySettings;
+  /** Changed by the user since loading, so worth saving. */
+  isEdited: boolean;
+  isKeyColorEdited: boolean;
+};
+
+const loadState = (replicaId: string | null): SettingsState => ({
+  replicaId,
+  settings: loadChromaKeySettings(replicaId),
+  isEdited: false,
+  isKeyColorEdited: false,
+});
+
+/**
+ * Chroma key settings for a replica, persisted in local storage so each
+ * replica keeps its own tuning across calls.
+ *
+ * `keyColor` replaces the saved key color without being saved, until the
+ * user picks another one.
+ */
+export const useChromaKeySettings = (
+  replicaId: string | null,
+  keyColor?: string,
+) => {
+  const [state, setState] = useState(() => loadState(replicaId));
+
+  useEffect(() => {
+    setState((current) =>
+      current.replicaId === replicaId ? current : loadState(replicaId),
+    );
+  }, [replicaId]);
+
+  useEffect(() => {
+    if (state.isEdited) {
+      saveChromaKeySettings(state.replicaId, state.settings);
+    }
+  }, [state]);
+
+  const updateSettings = useCallback((update: Partial<ChromaKeySettings>) => {
+    setState((current) => ({
+      ...current,
+      settings: { ...current.settings, ...update },
+      isEdited: true,
+      isKeyColorEdited:
+        current.isKeyColorEdited || update.keyColor !== undefined,
+    }));
+  }, []);
+
+  const settings = useMemo(
+    () =>
+      keyColor && !state.isKeyColorEdited
+        ? { ...state.settings, keyColor }
+        : state.settings,
+    [state, keyColor],
+  );
+
+  return [settings, updateSettings] as const;
+};
@@ -0,0 +1,281 @@
+import type { ChromaKeyBackend, ChromaKeyFrame } from "./backend";
+import {
+  type BackgroundMedia,
+  getBackgroundColors,
+  getBackgroundMode,
+  getCoverUvScale,
+  getMediaSize,
+  isVideoElement,
+} from "./compositing";
+import { ProgramLinkError, ShaderCompileError } from "./errors";
+import { DISTANCE_MODES, toKeyColorUniform } from "./settings";
+import { fragmentShaderSource, vertexShaderSource } from "./shaders";
+
+const uniformNames = [
+  "u_image",
+  "u_keyColor",
+  "u_similarity",
+  "u_smoothness",
+  "u_distanceMode",
+  "u_despill",
+  "u_erode",
+  "u_feather",
+  "u_texelSize",
+  "u_backgroundMode",
+  "u_background",
+  "u_backgroundUvScale",
+  "u_backgroundColor",
+  "u_gradientColor",
+  "u_gradientAngle",
+  "u_replicaScale",
+  "u_replicaOffset",
+  "u_lightWrap",
+] as const;
+
+type UniformName = (typeof uniformNames)[number];
+
+const initShader = (
+  gl: WebGLRenderingContext,
+  type: number,
+  source: string,
+) => {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    throw new Error("Failed to create a WebGL shader");
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader) ?? "";
+    gl.deleteShader(shader);
+    throw new ShaderCompileError(
+      type === gl.VERTEX_SHADER ? "vertex" : "fragment",
+      log,
+    );
+  }
+  return shader;
+};
+
+const initProgram = (gl: WebGLRenderingContext) => {
+  const vertexShader = initShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+  let fragmentShader: WebGLShader;
+  try {
+    fragmentShader = initShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+  } catch (error) {
+    gl.deleteShader(vertexShader);
+    throw error;
+  }
+
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error("Failed to create a WebGL program");
+  }
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  // The linked program keeps what it needs
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program) ?? "";
+    gl.deleteProgram(program);
+    throw new ProgramLinkError(log);
+  }
+  return program;
+};
+
+const createTexture = (gl: WebGLRenderingContext) => {
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  return texture;
+};
+
+const initWebGL = (gl: WebGLRenderingContext) => {
+  const program = initProgram(gl);
+  gl.useProgram(program);
+
+  const positionBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+    gl.STATIC_DRAW,
+  );
+
+  const texCoordBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, texCoordBuffer);
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]),
+    gl.STATIC_DRAW,
+  );
+
+  const positionLocation = gl.getAttribLocation(program, "a_position");
+  const texCoordLocation = gl.getAttribLocation(program, "a_texCoord");
+
+  gl.enableVertexAttribArray(positionLocation);
+  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+  gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+
+  gl.enableVertexAttribArray(texCoordLocation);
+  gl.bindBuffer(gl.ARRAY_BUFFER, texCoordBuffer);
+  gl.vertexAttribPointer(texCoordLocation, 2, gl.FLOAT, false, 0, 0);
+
+  // Image or video background, bound to texture unit 1
+  gl.activeTexture(gl.TEXTURE1);
+  const backgroundTexture = createTexture(gl);
+  gl.activeTexture(gl.TEXTURE0);
+  const texture = createTexture(gl);
+
+  const uniforms = {} as Record<UniformName, WebGLUniformLocation | null>;
+  for (const name of uniformNames) {
+    uniforms[name] = gl.getUniformLocation(program, name);
+  }
+
+  return {
+    program,
+    texture,
+    backgroundTexture,
+    buffers: [positionBuffer, texCoordBuffer],
+    uniforms,
+  };
+};
+
+/**
+ * Keys frames in the fragment shader. Throws `ShaderCompileError` or
+ * `ProgramLinkError` when the program cannot be built on this device.
+ */
+export const createWebGLBackend = (
+  gl: WebGLRenderingContext,
+): ChromaKeyBackend => {
+  const { program, texture, backgroundTexture, buffers, uniforms } =
+    initWebGL(gl);
+  let uploadedBackground: BackgroundMedia | null = null;
+  let textureWidth = 0;
+  let textureHeight = 0;
+
+  const setChromaKeyUniforms = ({ width, height, params }: ChromaKeyFrame) => {
+    const {
+      keyColor,
+      similarity,
+      smoothness,
+      distanceMode,
+      despill,
+      erode,
+      feather,
+    } = params.chromaKey;
+
+    gl.uniform1i(uniforms.u_image, 0);
+    gl.uniform3f(uniforms.u_keyColor, ...toKeyColorUniform(keyColor));
+    gl.uniform1f(uniforms.u_similarity, similarity);
+    // smoothstep is undefined when both edges are equal
+    gl.uniform1f(uniforms.u_smoothness, Math.max(smoothness, 0.001));
+    gl.uniform1i(uniforms.u_distanceMode, DISTANCE_MODES.indexOf(distanceMode));
+    gl.uniform1f(uniforms.u_despill, despill);
+    gl.uniform1f(uniforms.u_erode, erode);
+    gl.uniform1f(uniforms.u_feather, feather);
+    gl.uniform2f(uniforms.u_texelSize, 1 / width, 1 / height);
+  };
+
+  const setCompositingUniforms = ({
+    width,
+    height,
+    params,
+    background: media,
+  }: ChromaKeyFrame) => {
+    const { background, scale, offsetX, offsetY, lightWrap } =
+      params.compositing;
+
+    // Media backgrounds stay transparent until they have loaded
+    const isWaitingForMedia = "src" in background && !media;
+    gl.uniform1i(
+      uniforms.u_backgroundMode,
+      isWaitingForMedia ? 0 : getBackgroundMode(background),
+    );
+    if (media) {
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, backgroundTexture);
+      // Images only need uploading once, videos every frame
+      if (isVideoElement(media) || media !== uploadedBackground) {
+        gl.texImage2D(
+          gl.TEXTURE_2D,
+          0,
+          gl.RGBA,
+          gl.RGBA,
+          gl.UNSIGNED_BYTE,
+          media,
+        );
+        uploadedBackground = media;
+      }
+      gl.activeTexture(gl.TEXTURE0);
+      const [mediaWidth, mediaHeight] = getMediaSize(media);
+      gl.uniform2f(
+        uniforms.u_backgroundUvScale,
+        ...getCoverUvScale(width, height, mediaWidth, mediaHeight),
+      );
+    }
+    gl.uniform1i(uniforms.u_background, 1);
+
+    const [fromColor, toColor] = getBackgroundColors(background);
+    gl.uniform3f(uniforms.u_backgroundColor, ...fromColor);
+    gl.uniform3f(uniforms.u_gradientColor, ...toColor);
+    gl.uniform1f(
+      uniforms.u_gradientAngle,
+      background.type === "gradient" ? (background.angle * Math.PI) / 180 : 0,
+    );
+    gl.uniform1f(uniforms.u_replicaScale, Math.max(scale, 0.01));
+    gl.uniform2f(uniforms.u_replicaOffset, offsetX, offsetY);
+    gl.uniform1f(uniforms.u_lightWrap, lightWrap);
+  };
+
+  return {
+    type: "webgl",
+    draw: (frame) => {
+      const { source, width, height } = frame;
+      gl.viewport(0, 0, width, height);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      // Reallocate the texture only when the frame size changes; redraws
+      // for new settings reuse the frame already uploaded
+      if (width !== textureWidth || height !== textureHeight) {
+        gl.texImage2D(
+          gl.TEXTURE_2D,
+          0,
+          gl.RGBA,
+          gl.RGBA,
+          gl.UNSIGNED_BYTE,
+          source,
+        );
+        textureWidth = width;
+        textureHeight = height;
+      } else if (frame.isNewFrame) {
+        gl.texSubImage2D(
+          gl.TEXTURE_2D,
+          0,
+          0,
+          0,
+          gl.RGBA,
+          gl.UNSIGNED_BYTE,
+          source,
+        );
+      }
+      setChromaKeyUniforms(frame);
+      setCompositingUniforms(frame);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    },
+    dispose: () => {
+      // Everything is gone already once the context is lost
+      if (gl.isContextLost()) return;
+      gl.deleteTexture(texture);
+      gl.deleteTexture(backgroundTexture);
+      for (const buffer of buffers) {
+        gl.deleteBuffer(buffer);
+      }
+      gl.deleteProgram(program);
+    },
+  };
+};
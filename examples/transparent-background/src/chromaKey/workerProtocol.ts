@@ -0,0 +1,20 @@
+import type { ChromaKeyBackendType, ChromaKeyParams } from "./backend";
+import type { ChromaKeyMetrics } from "./frameMetrics";
+
+/** Messages from `ChromaKeyWorkerRenderer` to the chroma key worker. */
+export type ChromaKeyWorkerRequest =
+  | {
+      type: "init";
+      canvas: OffscreenCanvas;
+      frames: ReadableStream<VideoFrame>;
+      params: ChromaKeyParams;
+      maxFps: number;
+    }
+  | { type: "params"; params: ChromaKeyParams }
+  | { type: "maxFps"; maxFps: number };
+
+/** Messages from the chroma key worker back to the page. */
+export type ChromaKeyWorkerResponse =
+  | { type: "ready"; backend: ChromaKeyBackendType | null }
+  | { type: "metrics"; metrics: ChromaKeyMetrics & { maxFps: number } }
+  | { type: "error"; name: string; message: string };
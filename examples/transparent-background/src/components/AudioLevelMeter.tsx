@@ -0,0 +1,23 @@
+/** Horizontal bar showing an audio level from 0 to 1. */
+export const AudioLevelMeter: React.FC<{
+  label: string;
+  level: number;
+  isSpeaking?: boolean;
+}> = ({ label, level, isSpeaking = false }) => (
+  <span className="audio-level">
+    <span>{label}</span>
+    <span
+      role="meter"
+      aria-label={`${label} audio level`}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(level * 100)}
+      className={`audio-level-meter${isSpeaking ? " is-speaking" : ""}`}
+    >
+      <span
+        className="audio-level-fill"
+        style={{ transform: `scaleX(${level})` }}
+      />
+    </span>
+  </span>
+);
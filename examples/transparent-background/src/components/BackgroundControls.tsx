@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import type {
+  BackgroundType,
+  CompositingSettings,
+  ReplicaBackground,
+} from "../chromaKey";
+
+const backgroundTypeLabels: Record<BackgroundType, string> = {
+  none: "None (transparent)",
+  color: "Solid color",
+  gradient: "Gradient",
+  image: "Image",
+  video: "Video",
+};
+
+const defaultBackgrounds: Record<BackgroundType, ReplicaBackground> = {
+  none: { type: "none" },
+  color: { type: "color", color: "#0f172a" },
+  gradient: { type: "gradient", from: "#1e3a8a", to: "#9333ea", angle: 180 },
+  image: { type: "image", src: "" },
+  video: { type: "video", src: "" },
+};
+
+const RangeField: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, onChange }) => (
+  <label>
+    <span>
+      {label} ({value.toFixed(2)})
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+    />
+  </label>
+);
+
+/**
+ * URL input that applies its value on blur or Enter, so the background
+ * isn't loaded from every partial URL while typing.
+ */
+const UrlField: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ value, onChange }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  const apply = () => {
+    const next = draft.trim();
+    if (next !== value) onChange(next);
+  };
+
+  return (
+    <label>
+      <span>URL</span>
+      <input
+        type="url"
+        value={draft}
+        placeholder="https://..."
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={apply}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") apply();
+        }}
+      />
+    </label>
+  );
+};
+
+/**
+ * Panel for the replica's backdrop: background source, replica scale and
+ * position, and light wrap.
+ */
+export const BackgroundControls: React.FC<{
+  settings: CompositingSettings;
+  onChange: (settings: CompositingSettings) => void;
+}> = ({ settings, onChange }) => {
+  const { background } = settings;
+  const update = (patch: Partial<CompositingSettings>) =>
+    onChange({ ...settings, ...patch });
+  const updateBackground = (next: ReplicaBackground) =>
+    update({ background: next });
+
+  return (
+    <div className="chroma-key-controls">
+      <label>
+        <span>Background</span>
+        <select
+          value={background.type}
+          onChange={(e) =>
+            updateBackground(
+              defaultBackgrounds[e.target.value as BackgroundType],
+            )
+          }
+        >
+          {Object.entries(backgroundTypeLabels).map(([type, label]) => (
+            <option key={type} value={type}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {background.type === "color" && (
+        <label>
+          <span>Color</span>
+          <input
+            type="color"
+            value={background.color}
+            onChange={(e) =>
+              updateBackground({ ...background, color: e.target.value })
+            }
+          />
+        </label>
+      )}
+      {background.type === "gradient" && (
+        <>
+          <label>
+            <span>From / to</span>
+            <input
+              type="color"
+              value={background.from}
+              onChange={(e) =>
+                updateBackground({ ...background, from: e.target.value })
+              }
+            />
+            <input
+              type="color"
+              value={background.to}
+              onChange={(e) =>
+                updateBackground({ ...background, to: e.target.value })
+              }
+            />
+          </label>
+          <RangeField
+            label="Angle"
+            value={background.angle}
+            min={0}
+            max={360}
+            step={1}
+            onChange={(angle) => updateBackground({ ...background, angle })}
+          />
+        </>
+      )}
+      {(background.type === "image" || background.type === "video") && (
+        <UrlField
+          key={background.type}
+          value={background.src}
+          onChange={(src) => updateBackground({ ...background, src })}
+        />
+      )}
+      <RangeField
+        label="Scale"
+        value={settings.scale}
+        min={0.25}
+        max={2}
+        step={0.05}
+        onChange={(scale) => update({ scale })}
+      />
+      <RangeField
+        label="Position X"
+        value={settings.offsetX}
+        min={-0.5}
+        max={0.5}
+        step={0.01}
+        onChange={(offsetX) => update({ offsetX })}
+      />
+      <RangeField
+        label="Position Y"
+        value={settings.offsetY}
+        min={-0.5}
+        max={0.5}
+        step={0.01}
+        onChange={(offsetY) => update({ offsetY })}
+      />
+      <RangeField
+        label="Light wrap"
+        value={settings.lightWrap}
+        min={0}
+        max={1}
+        step={0.01}
+        onChange={(lightWrap) => update({ lightWrap })}
+      />
+    </div>
+  );
+};
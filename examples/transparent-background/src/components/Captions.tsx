@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import {
+  SPEAKER_LABELS,
+  type TranscriptEntry,
+  estimateUtteranceDuration,
+} from "../transcript";
+
+// Extra time on screen so short captions can still be read
+const CAPTION_HOLD_MS = 2000;
+
+/**
+ * Overlay with the latest utterance, shown about as long as it takes to
+ * say it.
+ */
+export const Captions: React.FC<{ entries: TranscriptEntry[] }> = ({
+  entries,
+}) => {
+  const latest = entries[entries.length - 1] as TranscriptEntry | undefined;
+  const [shownId, setShownId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!latest) return;
+    setShownId(latest.id);
+    const timeoutId = setTimeout(
+      () => setShownId(null),
+      estimateUtteranceDuration(latest.text) + CAPTION_HOLD_MS,
+    );
+    return () => clearTimeout(timeoutId);
+  }, [latest]);
+
+  return (
+    <div className="captions" aria-live="polite">
+      {latest && shownId === latest.id && (
+        <p>
+          <span className="captions-speaker">
+            {SPEAKER_LABELS[latest.speaker]}:
+          </span>{" "}
+          {latest.text}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import type { ConversationActions } from "../call";
+
+/**
+ * Text chat with the replica: messages are answered like speech, or said
+ * word for word when "Say verbatim" is on. Also interrupts the replica and
+ * updates the context of the conversation.
+ */
+export const ChatBox: React.FC<{
+  actions: ConversationActions;
+  isReplicaSpeaking: boolean;
+}> = ({ actions, isReplicaSpeaking }) => {
+  const [message, setMessage] = useState("");
+  const [isVerbatim, setIsVerbatim] = useState(false);
+  const [context, setContext] = useState("");
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const text = message.trim();
+    if (!text) return;
+    if (isVerbatim) {
+      actions.echo(text);
+    } else {
+      actions.respond(text);
+    }
+    setMessage("");
+  };
+
+  const updateContext = (mode: "append" | "overwrite") => {
+    const text = context.trim();
+    if (!text) return;
+    if (mode === "append") {
+      actions.appendContext(text);
+    } else {
+      actions.overwriteContext(text);
+    }
+    setContext("");
+  };
+
+  return (
+    <div className="chroma-key-controls chat-box">
+      <form onSubmit={handleSubmit}>
+        <input
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder={isVerbatim ? "Text for the replica to say" : "Message"}
+          aria-label="Message"
+        />
+        <button type="submit" disabled={!message.trim()}>
+          Send
+        </button>
+      </form>
+      <label>
+        <span>Say verbatim</span>
+        <input
+          type="checkbox"
+          checked={isVerbatim}
+          onChange={(e) => setIsVerbatim(e.target.checked)}
+        />
+      </label>
+      <button
+        type="button"
+        onClick={actions.interrupt}
+        disabled={!isReplicaSpeaking}
+      >
+        Interrupt
+      </button>
+      <details>
+        <summary>Conversation context</summary>
+        <textarea
+          value={context}
+          onChange={(e) => setContext(e.target.value)}
+          rows={3}
+          aria-label="Conversation context"
+        />
+        <div className="chat-box-actions">
+          <button
+            type="button"
+            onClick={() => updateContext("append")}
+            disabled={!context.trim()}
+          >
+            Append
+          </button>
+          <button
+            type="button"
+            onClick={() => updateContext("overwrite")}
+            disabled={!context.trim()}
+          >
+            Replace
+          </button>
+        </div>
+      </details>
+    </div>
+  );
+};
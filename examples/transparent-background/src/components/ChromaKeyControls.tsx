@@ -0,0 +1,113 @@
+import {
+  type ChromaKeySettings,
+  DEFAULT_CHROMA_KEY_SETTINGS,
+  DISTANCE_MODES,
+  type DistanceMode,
+  MAX_EDGE_RADIUS,
+} from "../chromaKey";
+
+const distanceModeLabels: Record<DistanceMode, string> = {
+  rgb: "RGB",
+  ycbcr: "YCbCr (chroma)",
+  hsv: "HSV",
+};
+
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  max?: number;
+  step?: number;
+  /** Shows "off" at 0 for stages that are disabled by a zero value. */
+  canDisable?: boolean;
+}> = ({ label, value, onChange, max = 1, step = 0.01, canDisable }) => (
+  <label>
+    <span>
+      {label} ({canDisable && value === 0 ? "off" : value.toFixed(2)})
+    </span>
+    <input
+      type="range"
+      min={0}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+    />
+  </label>
+);
+
+/**
+ * Panel for tuning the chroma key: key color (typed or sampled from the
+ * video with the eyedropper), similarity, edge smoothness and the optional
+ * despill, erosion and feathering stages.
+ */
+export const ChromaKeyControls: React.FC<{
+  settings: ChromaKeySettings;
+  onChange: (update: Partial<ChromaKeySettings>) => void;
+  isPicking: boolean;
+  onTogglePicking: () => void;
+}> = ({ settings, onChange, isPicking, onTogglePicking }) => (
+  <div className="chroma-key-controls">
+    <label>
+      <span>Key color</span>
+      <input
+        type="color"
+        value={settings.keyColor}
+        onChange={(e) => onChange({ keyColor: e.target.value })}
+      />
+      <button type="button" onClick={onTogglePicking} aria-pressed={isPicking}>
+        {isPicking ? "Click the video..." : "Pick from video"}
+      </button>
+    </label>
+    <label>
+      <span>Distance</span>
+      <select
+        value={settings.distanceMode}
+        onChange={(e) =>
+          onChange({ distanceMode: e.target.value as DistanceMode })
+        }
+      >
+        {DISTANCE_MODES.map((mode) => (
+          <option key={mode} value={mode}>
+            {distanceModeLabels[mode]}
+          </option>
+        ))}
+      </select>
+    </label>
+    <Slider
+      label="Similarity"
+      value={settings.similarity}
+      onChange={(similarity) => onChange({ similarity })}
+    />
+    <Slider
+      label="Smoothness"
+      value={settings.smoothness}
+      onChange={(smoothness) => onChange({ smoothness })}
+    />
+    <Slider
+      label="Despill"
+      value={settings.despill}
+      onChange={(despill) => onChange({ despill })}
+      canDisable
+    />
+    <Slider
+      label="Erode (px)"
+      value={settings.erode}
+      onChange={(erode) => onChange({ erode })}
+      max={MAX_EDGE_RADIUS}
+      step={0.5}
+      canDisable
+    />
+    <Slider
+      label="Feather (px)"
+      value={settings.feather}
+      onChange={(feather) => onChange({ feather })}
+      max={MAX_EDGE_RADIUS}
+      step={0.5}
+      canDisable
+    />
+    <button type="button" onClick={() => onChange(DEFAULT_CHROMA_KEY_SETTINGS)}>
+      Reset
+    </button>
+  </div>
+);
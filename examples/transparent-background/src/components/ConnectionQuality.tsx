@@ -0,0 +1,35 @@
+import { useNetwork } from "@daily-co/daily-react";
+
+type NetworkThreshold = ReturnType<typeof useNetwork>["threshold"];
+
+const thresholdLabels: Record<NetworkThreshold, string> = {
+  good: "Good connection",
+  low: "Weak connection",
+  "very-low": "Very weak connection",
+};
+
+const thresholdColors: Record<NetworkThreshold, string> = {
+  good: "rgb(22, 163, 74)",
+  low: "rgb(234, 179, 8)",
+  "very-low": "rgb(220, 38, 38)",
+};
+
+/** Colored dot and label for Daily's view of the network quality. */
+export const ConnectionQuality = () => {
+  const { threshold } = useNetwork();
+
+  return (
+    <span
+      role="status"
+      className="connection-quality"
+      title={thresholdLabels[threshold]}
+    >
+      <span
+        aria-hidden="true"
+        className="connection-quality-dot"
+        style={{ backgroundColor: thresholdColors[threshold] }}
+      />
+      {thresholdLabels[threshold]}
+    </span>
+  );
+};
@@ -0,0 +1,145 @@
+import {
+  type CreateConversationOptions,
+  DEFAULT_CONVERSATION_OPTIONS,
+} from "../api";
+
+/**
+ * Raw form state for the conversation options. Everything is kept as the
+ * string the user typed and converted with `toConversationOptions`.
+ */
+export type ConversationFormValues = {
+  replicaId: string;
+  personaId: string;
+  conversationName: string;
+  conversationalContext: string;
+  customGreeting: string;
+  callbackUrl: string;
+  maxCallDuration: string;
+  participantLeftTimeout: string;
+  participantAbsentTimeout: string;
+  language: string;
+  enableRecording: boolean;
+};
+
+export const DEFAULT_CONVERSATION_FORM_VALUES: ConversationFormValues = {
+  replicaId: "",
+  personaId: DEFAULT_CONVERSATION_OPTIONS.persona_id ?? "",
+  conversationName: "",
+  conversationalContext: "",
+  customGreeting: "",
+  callbackUrl: "",
+  maxCallDuration: "",
+  participantLeftTimeout: "",
+  participantAbsentTimeout: "",
+  language: "",
+  enableRecording: false,
+};
+
+const optionalString = (value: string) => value.trim() || undefined;
+
+const optionalNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+export const toConversationOptions = (
+  values: ConversationFormValues,
+): CreateConversationOptions => ({
+  replica_id: optionalString(values.replicaId),
+  persona_id: optionalString(values.personaId),
+  conversation_name: optionalString(values.conversationName),
+  conversational_context: optionalString(values.conversationalContext),
+  custom_greeting: optionalString(values.customGreeting),
+  callback_url: optionalString(values.callbackUrl),
+  properties: {
+    max_call_duration: optionalNumber(values.maxCallDuration),
+    participant_left_timeout: optionalNumber(values.participantLeftTimeout),
+    participant_absent_timeout: optionalNumber(values.participantAbsentTimeout),
+    language: optionalString(values.language),
+    enable_recording: values.enableRecording || undefined,
+    // The transparent background relies on the green screen being applied
+    apply_greenscreen: true,
+  },
+});
+
+type TextField = Exclude<keyof ConversationFormValues, "enableRecording">;
+
+const textFields: {
+  name: TextField;
+  label: string;
+  type?: "text" | "number" | "url";
+  multiline?: boolean;
+}[] = [
+  { name: "personaId", label: "Persona ID" },
+  { name: "replicaId", label: "Replica ID" },
+  { name: "conversationName", label: "Conversation name" },
+  {
+    name: "conversationalContext",
+    label: "Conversational context",
+    multiline: true,
+  },
+  { name: "customGreeting", label: "Custom greeting" },
+  { name: "callbackUrl", label: "Callback URL", type: "url" },
+  { name: "maxCallDuration", label: "Max duration (s)", type: "number" },
+  {
+    name: "participantLeftTimeout",
+    label: "Left timeout (s)",
+    type: "number",
+  },
+  {
+    name: "participantAbsentTimeout",
+    label: "Absent timeout (s)",
+    type: "number",
+  },
+  { name: "language", label: "Language" },
+];
+
+/**
+ * Collapsible set of inputs for the conversation creation options.
+ */
+export const ConversationOptionsFields: React.FC<{
+  values: ConversationFormValues;
+  onChange: (values: ConversationFormValues) => void;
+  issues: string[];
+  disabled?: boolean;
+}> = ({ values, onChange, issues, disabled }) => (
+  <details className="conversation-options-details">
+    <summary>Conversation options</summary>
+    <fieldset className="conversation-options" disabled={disabled}>
+      {textFields.map(({ name, label, type = "text", multiline }) => (
+        <label key={name}>
+          <span>{label}</span>
+          {multiline ? (
+            <textarea
+              value={values[name]}
+              onChange={(e) => onChange({ ...values, [name]: e.target.value })}
+              rows={3}
+            />
+          ) : (
+            <input
+              type={type}
+              min={type === "number" ? 0 : undefined}
+              value={values[name]}
+              onChange={(e) => onChange({ ...values, [name]: e.target.value })}
+            />
+          )}
+        </label>
+      ))}
+      <label>
+        <span>Enable recording</span>
+        <input
+          type="checkbox"
+          checked={values.enableRecording}
+          onChange={(e) =>
+            onChange({ ...values, enableRecording: e.target.checked })
+          }
+        />
+      </label>
+    </fieldset>
+    {issues.length > 0 && (
+      <ul className="conversation-options-issues">
+        {issues.map((issue) => (
+          <li key={issue}>{issue}</li>
+        ))}
+      </ul>
+    )}
+  </details>
+);
@@ -0,0 +1,85 @@
+import { useDevices } from "@daily-co/daily-react";
+
+type Device = ReturnType<typeof useDevices>["cameras"][number];
+
+const DeviceSelect: React.FC<{
+  label: string;
+  devices: Device[];
+  onChange: (deviceId: string) => Promise<void>;
+}> = ({ label, devices, onChange }) => (
+  <label>
+    <span>{label}</span>
+    <select
+      value={devices.find((d) => d.selected)?.device.deviceId ?? ""}
+      disabled={devices.length === 0}
+      onChange={(e) => onChange(e.target.value).catch(console.error)}
+    >
+      {devices.length === 0 && <option value="">None found</option>}
+      {devices.map(({ device }) => (
+        <option key={device.deviceId} value={device.deviceId}>
+          {device.label || device.deviceId}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+/**
+ * Panel for choosing the microphone, camera and speaker, and the volume of
+ * the replica's audio. Speaker selection is hidden where the browser cannot
+ * route audio output.
+ */
+export const DeviceControls: React.FC<{
+  volume: number;
+  onVolumeChange: (volume: number) => void;
+}> = ({ volume, onVolumeChange }) => {
+  const {
+    microphones,
+    cameras,
+    speakers,
+    setMicrophone,
+    setCamera,
+    setSpeaker,
+    hasMicError,
+    hasCamError,
+  } = useDevices();
+
+  return (
+    <div className="chroma-key-controls">
+      <DeviceSelect
+        label="Microphone"
+        devices={microphones}
+        onChange={setMicrophone}
+      />
+      {hasMicError && (
+        <p role="alert" className="conversation-error">
+          The microphone is blocked or unavailable.
+        </p>
+      )}
+      <DeviceSelect label="Camera" devices={cameras} onChange={setCamera} />
+      {hasCamError && (
+        <p role="alert" className="conversation-error">
+          The camera is blocked or unavailable.
+        </p>
+      )}
+      {speakers.length > 0 && (
+        <DeviceSelect
+          label="Speaker"
+          devices={speakers}
+          onChange={setSpeaker}
+        />
+      )}
+      <label>
+        <span>Volume ({Math.round(volume * 100)}%)</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={volume}
+          onChange={(e) => onVolumeChange(Number(e.target.value))}
+        />
+      </label>
+    </div>
+  );
+};
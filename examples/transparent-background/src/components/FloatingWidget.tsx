@@ -0,0 +1,257 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  type Viewport,
+  type WidgetCorner,
+  type WidgetLayout,
+  getWidgetPosition,
+  moveWidgetLayout,
+  resizeWidgetLayout,
+  snapWidgetLayout,
+  useWidgetLayout,
+} from "../widget";
+
+const KEYBOARD_STEP = 10;
+const KEYBOARD_LARGE_STEP = 50;
+const BUBBLE_SIZE = 56;
+
+type DragKind = "move" | "resize";
+
+type Drag = {
+  kind: DragKind;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startLayout: WidgetLayout;
+};
+
+const arrowDeltas: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+// Docked widgets grow away from their corner, so their resize grip sits in
+// the opposite corner and dragging it left or up makes them bigger
+const getResizeCorner = ({ corner }: WidgetLayout): WidgetCorner => {
+  if (!corner) return "bottom-right";
+  const vertical = corner.startsWith("top") ? "bottom" : "top";
+  const horizontal = corner.endsWith("left") ? "right" : "left";
+  return `${vertical}-${horizontal}`;
+};
+
+const applyDrag = (
+  kind: DragKind,
+  layout: WidgetLayout,
+  dx: number,
+  dy: number,
+  viewport: Viewport,
+) => {
+  if (kind === "move") return moveWidgetLayout(layout, dx, dy, viewport);
+  const resizeCorner = getResizeCorner(layout);
+  return resizeWidgetLayout(
+    layout,
+    resizeCorner.endsWith("left") ? -dx : dx,
+    resizeCorner.startsWith("top") ? -dy : dy,
+    viewport,
+  );
+};
+
+// The bubble sits in the corner the widget is docked to, or its bottom right
+const getBubblePosition = (layout: WidgetLayout, x: number, y: number) => {
+  const corner = layout.corner ?? "bottom-right";
+  return {
+    left: corner.endsWith("left") ? x : x + layout.width - BUBBLE_SIZE,
+    top: corner.startsWith("top") ? y : y + layout.height - BUBBLE_SIZE,
+  };
+};
+
+/**
+ * Floating, draggable and resizable frame for the replica. Drop it near a
+ * corner to dock it there, minimize it to a bubble or take it full screen.
+ * The move and resize handles also take arrow keys (with Shift for larger
+ * steps), which move it freely without docking. Its layout persists across
+ * page loads.
+ *
+ * Minimizing only hides the content, so the call and its audio go on.
+ */
+export const FloatingWidget: React.FC<{
+  title: string;
+  /** Docks the widget to this corner on mount and whenever it changes. */
+  corner?: WidgetCorner;
+  children: React.ReactNode;
+}> = ({ title, corner, children }) => {
+  const widgetRef = useRef<HTMLElement>(null);
+  const { layout, position, viewport, updateLayout } = useWidgetLayout();
+  const dragRef = useRef<Drag | null>(null);
+  // Follows the pointer while dragging; committed and saved on release
+  const [draft, setDraft] = useState<WidgetLayout | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useEffect(() => {
+    if (corner) updateLayout((current) => ({ ...current, corner }));
+  }, [corner, updateLayout]);
+
+  useEffect(() => {
+    // Inside a shadow root the document only sees the host as full screen
+    const handleFullscreenChange = () => {
+      const widget = widgetRef.current;
+      const root = widget?.getRootNode() as Document | ShadowRoot | undefined;
+      setIsFullscreen(!!widget && root?.fullscreenElement === widget);
+    };
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () =>
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, []);
+
+  const shownLayout = draft ?? layout;
+  const { x, y } = draft ? getWidgetPosition(draft, viewport) : position;
+
+  const handlePointerDown =
+    (kind: DragKind) => (e: React.PointerEvent<HTMLElement>) => {
+      if (e.button !== 0 || isFullscreen) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragRef.current = {
+        kind,
+        pointerId: e.pointerId,
+        startX: e.clientX,
+        startY: e.clientY,
+        startLayout: layout,
+      };
+    };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    setDraft(
+      applyDrag(
+        drag.kind,
+        drag.startLayout,
+        e.clientX - drag.startX,
+        e.clientY - drag.startY,
+        viewport,
+      ),
+    );
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    setDraft(null);
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (dx === 0 && dy === 0) return;
+    updateLayout((current, currentViewport) => {
+      const next = applyDrag(drag.kind, current, dx, dy, currentViewport);
+      return drag.kind === "move"
+        ? snapWidgetLayout(next, currentViewport)
+        : next;
+    });
+  };
+
+  const handleKeyDown =
+    (kind: DragKind) => (e: React.KeyboardEvent<HTMLElement>) => {
+      const delta = arrowDeltas[e.key];
+      if (!delta || isFullscreen) return;
+      e.preventDefault();
+      const step = e.shiftKey ? KEYBOARD_LARGE_STEP : KEYBOARD_STEP;
+      // Only dropping snaps; a small step from a corner would snap right back
+      updateLayout((current, currentViewport) =>
+        applyDrag(
+          kind,
+          current,
+          delta[0] * step,
+          delta[1] * step,
+          currentViewport,
+        ),
+      );
+    };
+
+  const setMinimized = (isMinimized: boolean) =>
+    updateLayout((current) => ({ ...current, isMinimized }));
+
+  const toggleFullscreen = () => {
+    if (isFullscreen) {
+      document.exitFullscreen().catch(console.error);
+    } else {
+      widgetRef.current?.requestFullscreen().catch(console.error);
+    }
+  };
+
+  const dragHandlers = {
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+  };
+
+  return (
+    <>
+      {layout.isMinimized && (
+        <button
+          type="button"
+          className="floating-widget-bubble"
+          onClick={() => setMinimized(false)}
+          aria-label={`Show ${title}`}
+          style={{
+            ...getBubblePosition(layout, x, y),
+            width: BUBBLE_SIZE,
+            height: BUBBLE_SIZE,
+          }}
+        >
+          ▲
+        </button>
+      )}
+      <section
+        ref={widgetRef}
+        className="floating-widget"
+        aria-label={title}
+        hidden={layout.isMinimized}
+        style={
+          isFullscreen
+            ? undefined
+            : {
+                left: x,
+                top: y,
+                width: shownLayout.width,
+                height: shownLayout.height,
+              }
+        }
+      >
+        <div className="floating-widget-bar">
+          <button
+            type="button"
+            className="floating-widget-handle"
+            aria-label={`Move ${title}. Use the arrow keys to move it.`}
+            onPointerDown={handlePointerDown("move")}
+            onKeyDown={handleKeyDown("move")}
+            {...dragHandlers}
+          >
+            ⠿ {title}
+          </button>
+          <button
+            type="button"
+            onClick={toggleFullscreen}
+            aria-pressed={isFullscreen}
+          >
+            {isFullscreen ? "Exit full screen" : "Full screen"}
+          </button>
+          <button type="button" onClick={() => setMinimized(true)}>
+            Minimize
+          </button>
+        </div>
+        <div className="floating-widget-body">{children}</div>
+        {!isFullscreen && (
+          <button
+            type="button"
+            className={`floating-widget-resize floating-widget-resize-${getResizeCorner(layout)}`}
+            aria-label={`Resize ${title}. Use the arrow keys to resize it.`}
+            onPointerDown={handlePointerDown("resize")}
+            onKeyDown={handleKeyDown("resize")}
+            {...dragHandlers}
+          />
+        )}
+      </section>
+    </>
+  );
+};
@@ -0,0 +1,17 @@
+import { DailyVideo, useLocalSessionId } from "@daily-co/daily-react";
+
+/** Small preview of the local camera, mirrored when it faces the user. */
+export const SelfView = () => {
+  const localSessionId = useLocalSessionId();
+  if (!localSessionId) return null;
+
+  return (
+    <DailyVideo
+      sessionId={localSessionId}
+      type="video"
+      automirror
+      fit="cover"
+      className="self-view"
+    />
+  );
+};
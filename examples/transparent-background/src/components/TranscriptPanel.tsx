@@ -0,0 +1,80 @@
+import { useEffect, useRef } from "react";
+import {
+  SPEAKER_LABELS,
+  type Transcript,
+  type TranscriptFormat,
+  downloadTranscript,
+  formatOffset,
+} from "../transcript";
+
+// How close to the bottom, in pixels, still counts as following along
+const STICKY_SCROLL_DISTANCE = 24;
+
+const exportFormats: { format: TranscriptFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "txt", label: "Text" },
+  { format: "vtt", label: "WebVTT" },
+];
+
+/**
+ * Scrollable transcript with speaker labels and the time into the call.
+ * It follows new utterances unless the user has scrolled back.
+ */
+export const TranscriptPanel: React.FC<{
+  transcript: Transcript;
+  className?: string;
+}> = ({ transcript, className = "transcript" }) => {
+  const listRef = useRef<HTMLOListElement>(null);
+  const isFollowingRef = useRef(true);
+  const { entries } = transcript;
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && isFollowingRef.current && entries.length > 0) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [entries.length]);
+
+  const handleScroll = (e: React.UIEvent<HTMLOListElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    isFollowingRef.current =
+      scrollHeight - scrollTop - clientHeight <= STICKY_SCROLL_DISTANCE;
+  };
+
+  return (
+    <section className={className} aria-label="Transcript">
+      {entries.length === 0 ? (
+        <p>Nothing has been said yet.</p>
+      ) : (
+        <ol ref={listRef} className="transcript-list" onScroll={handleScroll}>
+          {entries.map(({ id, speaker, text, timestamp, offsetMs }) => (
+            <li key={id}>
+              <time dateTime={new Date(timestamp).toISOString()}>
+                {formatOffset(offsetMs)}
+              </time>{" "}
+              <strong>{SPEAKER_LABELS[speaker]}</strong>: {text}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+/** Buttons that download the transcript in each supported format. */
+export const TranscriptExport: React.FC<{ transcript: Transcript }> = ({
+  transcript,
+}) => (
+  <div className="transcript-export">
+    <span>Download transcript:</span>
+    {exportFormats.map(({ format, label }) => (
+      <button
+        key={format}
+        type="button"
+        onClick={() => downloadTranscript(transcript, format)}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
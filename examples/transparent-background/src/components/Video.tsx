@@ -0,0 +1,208 @@
+import { DailyVideo, useVideoTrack } from "@daily-co/daily-react";
+import { useEffect, useRef, useState } from "react";
+import {
+  ChromaKeyRenderer,
+  type ChromaKeySettings,
+  ChromaKeyWorkerRenderer,
+  type CompositingSettings,
+  DEFAULT_CHROMA_KEY_SETTINGS,
+  DEFAULT_COMPOSITING_SETTINGS,
+  DEFAULT_MAX_FPS,
+  getContainRect,
+  sampleVideoColor,
+} from "../chromaKey";
+
+/**
+ * Where keying runs: "worker" keys off the main thread, "main" on it, and
+ * "auto" uses a worker whenever the browser and background allow it.
+ */
+export type VideoRenderMode = "auto" | "main" | "worker";
+
+// Each step falls back to the next when it fails
+type RenderPipeline = "worker" | "main" | "2d";
+
+const canvasStyle: Partial<CSSStyleDeclaration> = {
+  position: "absolute",
+  inset: "0",
+  width: "100%",
+  height: "100%",
+  objectFit: "contain",
+};
+
+export const Video: React.FC<{
+  id: string;
+  chromaKey?: ChromaKeySettings;
+  /** Background, replica placement and light wrap. */
+  compositing?: CompositingSettings;
+  /** When set, clicking the video samples its color instead. */
+  onPickColor?: (color: string) => void;
+  /** Cap on the keyed video's frame rate. */
+  maxFps?: number;
+  renderMode?: VideoRenderMode;
+  /** Adds a glow around the replica while it talks. */
+  isSpeaking?: boolean;
+}> = ({
+  id,
+  chromaKey = DEFAULT_CHROMA_KEY_SETTINGS,
+  compositing = DEFAULT_COMPOSITING_SETTINGS,
+  onPickColor,
+  maxFps = DEFAULT_MAX_FPS,
+  renderMode = "auto",
+  isSpeaking = false,
+}) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const rendererRef = useRef<
+    ChromaKeyRenderer | ChromaKeyWorkerRenderer | null
+  >(null);
+  const compositingRef = useRef(compositing);
+  compositingRef.current = compositing;
+  const chromaKeyRef = useRef(chromaKey);
+  chromaKeyRef.current = chromaKey;
+  const maxFpsRef = useRef(maxFps);
+  maxFpsRef.current = maxFps;
+  const { persistentTrack } = useVideoTrack(id);
+  const [fallback, setFallback] = useState<"main" | "2d" | null>(null);
+  const [isUnsupported, setIsUnsupported] = useState(false);
+
+  // Video backgrounds need DOM video elements, which workers lack
+  const canUseWorker =
+    renderMode !== "main" &&
+    compositing.background.type !== "video" &&
+    ChromaKeyWorkerRenderer.isSupported();
+  const pipeline: RenderPipeline =
+    fallback ?? (canUseWorker ? "worker" : "main");
+  const workerTrack = pipeline === "worker" ? persistentTrack : undefined;
+
+  useEffect(() => {
+    const surface = surfaceRef.current;
+    const video = videoRef.current;
+    if (!surface || !video) return;
+    if (pipeline === "worker" && !workerTrack) return;
+
+    // A canvas is bound to its first context, or given away to a worker, so
+    // every attempt gets a fresh one
+    const canvas = document.createElement("canvas");
+    Object.assign(canvas.style, canvasStyle);
+    surface.append(canvas);
+
+    const fallBack = (error: unknown) => {
+      console.error(error);
+      if (pipeline === "worker") {
+        setFallback("main");
+      } else if (pipeline === "main") {
+        setFallback("2d");
+      } else {
+        setIsUnsupported(true);
+      }
+    };
+
+    const options = {
+      chromaKey: chromaKeyRef.current,
+      compositing: compositingRef.current,
+      maxFps: maxFpsRef.current,
+      onError: fallBack,
+    };
+    let renderer: ChromaKeyRenderer | ChromaKeyWorkerRenderer;
+    try {
+      if (pipeline === "worker" && workerTrack) {
+        renderer = new ChromaKeyWorkerRenderer(canvas, workerTrack, options);
+      } else {
+        const mainRenderer = new ChromaKeyRenderer(canvas, {
+          ...options,
+          backend: pipeline === "2d" ? "2d" : "auto",
+        });
+        mainRenderer.setSource(video);
+        mainRenderer.start();
+        renderer = mainRenderer;
+      }
+    } catch (error) {
+      canvas.remove();
+      fallBack(error);
+      return;
+    }
+    rendererRef.current = renderer;
+    return () => {
+      rendererRef.current = null;
+      renderer.dispose();
+      canvas.remove();
+    };
+  }, [pipeline, workerTrack]);
+
+  useEffect(() => {
+    rendererRef.current?.setParams({ chromaKey, compositing });
+  }, [chromaKey, compositing]);
+
+  useEffect(() => {
+    rendererRef.current?.setMaxFps(maxFps);
+  }, [maxFps]);
+
+  // Samples the video at a point given as fractions of the displayed frame
+  const pickColorAt = (x: number, y: number) => {
+    const video = videoRef.current;
+    if (!onPickColor || !video?.videoWidth) return;
+    // Undo the replica placement to find the matching video pixel
+    const { scale, offsetX, offsetY } = compositingRef.current;
+    const color = sampleVideoColor(
+      video,
+      Math.floor(((x - 0.5 - offsetX) / scale + 0.5) * video.videoWidth),
+      Math.floor(((y - 0.5 - offsetY) / scale + 0.5) * video.videoHeight),
+    );
+    if (color) onPickColor(color);
+  };
+
+  const handleSurfaceClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    if (!video?.videoWidth) return;
+    // The canvas is letterboxed, so measure from the frame it shows
+    const rect = e.currentTarget.getBoundingClientRect();
+    const frame = getContainRect(
+      rect.width,
+      rect.height,
+      video.videoWidth,
+      video.videoHeight,
+    );
+    const x = (e.clientX - rect.left - frame.x) / frame.width;
+    const y = (e.clientY - rect.top - frame.y) / frame.height;
+    if (x < 0 || x > 1 || y < 0 || y > 1) return;
+    pickColorAt(x, y);
+  };
+
+  // Keyboard users sample the top-left corner, usually pure background
+  const handleSurfaceKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      pickColorAt(0.02, 0.02);
+    }
+  };
+
+  return (
+    <div className={`replica-video${isSpeaking ? " is-speaking" : ""}`}>
+      <DailyVideo
+        sessionId={id}
+        type="video"
+        ref={videoRef}
+        style={{ height: "13rem", display: "none" }}
+      />
+      {isUnsupported && (
+        <p role="alert" className="conversation-error">
+          The replica video cannot be displayed in this browser.
+        </p>
+      )}
+      {/* The renderer's canvas is appended here */}
+      <div
+        ref={surfaceRef}
+        role={onPickColor ? "button" : undefined}
+        aria-label={onPickColor ? "Pick the key color" : undefined}
+        onClick={handleSurfaceClick}
+        onKeyDown={handleSurfaceKeyDown}
+        tabIndex={onPickColor ? 0 : undefined}
+        style={{
+          position: "absolute",
+          inset: 0,
+          cursor: onPickColor ? "crosshair" : undefined,
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { ConversationStatus, type IConversation } from "../types";
+import {
+  type ConversationEvent,
+  type ConversationState,
+  type ConversationStatusName,
+  canTransition,
+  conversationReducer,
+  conversationTransitions,
+  initialConversationState,
+} from "./conversationMachine";
+
+const conversation: IConversation = {
+  conversation_id: "c1",
+  conversation_name: "Test",
+  status: ConversationStatus.ACTIVE,
+  conversation_url: "https://tavus.daily.co/c1",
+  replica_id: "r1",
+  persona_id: "p1",
+  created_at: "2024-01-01T00:00:00Z",
+};
+
+const failure = new Error("Something went wrong");
+
+const states: Record<ConversationStatusName, ConversationState> = {
+  idle: { status: "idle" },
+  creating: { status: "creating" },
+  joining: { status: "joining", conversation },
+  active: { status: "active", conversation },
+  ending: { status: "ending", conversation },
+  ended: { status: "ended", conversation },
+  error: {
+    status: "error",
+    conversation,
+    error: { stage: "call", message: failure.message, cause: failure },
+  },
+};
+
+const events: Record<ConversationEvent["type"], ConversationEvent> = {
+  START: { type: "START" },
+  CREATED: { type: "CREATED", conversation },
+  JOINED: { type: "JOINED" },
+  CANCEL: { type: "CANCEL" },
+  END: { type: "END" },
+  ENDED: { type: "ENDED" },
+  FAIL: { type: "FAIL", stage: "join", error: failure },
+  RESET: { type: "RESET" },
+};
+
+// Status reached by every accepted transition
+const expectedTransitions: [
+  ConversationStatusName,
+  ConversationEvent["type"],
+  ConversationStatusName,
+][] = [
+  ["idle", "START", "creating"],
+  ["creating", "CREATED", "joining"],
+  ["creating", "CANCEL", "ended"],
+  ["creating", "FAIL", "error"],
+  ["joining", "JOINED", "active"],
+  ["joining", "CANCEL", "ending"],
+  ["joining", "FAIL", "error"],
+  ["active", "END", "ending"],
+  ["active", "FAIL", "error"],
+  ["ending", "ENDED", "ended"],
+  ["ending", "FAIL", "error"],
+  ["ended", "START", "creating"],
+  ["ended", "RESET", "idle"],
+  ["error", "START", "creating"],
+  ["error", "RESET", "idle"],
+];
+
+const statusNames = Object.keys(states) as ConversationStatusName[];
+const eventTypes = Object.keys(events) as ConversationEvent["type"][];
+
+const rejectedTransitions = statusNames.flatMap((status) =>
+  eventTypes
+    .filter((type) => !conversationTransitions[status].includes(type))
+    .map((type) => [status, type] as const),
+);
+
+describe("conversationReducer", () => {
+  it("starts idle", () => {
+    expect(initialConversationState).toEqual({ status: "idle" });
+  });
+
+  it("accepts exactly the transitions in the table", () => {
+    const accepted = statusNames.flatMap((status) =>
+      conversationTransitions[status].map((type) => [status, type]),
+    );
+    expect(accepted).toEqual(
+      expectedTransitions.map(([status, type]) => [status, type]),
+    );
+  });
+
+  it.each(expectedTransitions)("%s + %s → %s", (status, type, next) => {
+    expect(canTransition(states[status], type)).toBe(true);
+    expect(conversationReducer(states[status], events[type]).status).toBe(next);
+  });
+
+  it.each(rejectedTransitions)("ignores %s + %s", (status, type) => {
+    expect(canTransition(states[status], type)).toBe(false);
+    expect(conversationReducer(states[status], events[type])).toBe(
+      states[status],
+    );
+  });
+
+  it("keeps the conversation through joining, ending and ended", () => {
+    const joining = conversationReducer(states.creating, events.CREATED);
+    const active = conversationReducer(joining, events.JOINED);
+    const ending = conversationReducer(active, events.END);
+    const ended = conversationReducer(ending, events.ENDED);
+
+    expect(ended).toEqual({ status: "ended", conversation });
+  });
+
+  it("ends without a conversation when cancelled before it was created", () => {
+    expect(conversationReducer(states.creating, events.CANCEL)).toEqual({
+      status: "ended",
+      conversation: null,
+    });
+  });
+
+  it("records the failed stage and the error", () => {
+    expect(conversationReducer(states.joining, events.FAIL)).toEqual({
+      status: "error",
+      conversation,
+      error: { stage: "join", message: failure.message, cause: failure },
+    });
+  });
+
+  it("describes errors that aren't Error instances", () => {
+    const state = conversationReducer(states.creating, {
+      type: "FAIL",
+      stage: "create",
+      error: "Network down",
+    });
+
+    expect(state).toMatchObject({
+      conversation: null,
+      error: { stage: "create", message: "Network down" },
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import type { IConversation } from "../types";
+
+export type ConversationErrorStage = "create" | "join" | "call" | "end";
+
+export type ConversationError = {
+  stage: ConversationErrorStage;
+  message: string;
+  cause: unknown;
+};
+
+/**
+ * Every state the conversation can be in. The conversation object is only
+ * present once it has been created, so impossible combinations such as
+ * "loading with an active conversation" cannot be represented.
+ */
+export type ConversationState =
+  | { status: "idle" }
+  | { status: "creating" }
+  | { status: "joining"; conversation: IConversation }
+  | { status: "active"; conversation: IConversation }
+  | { status: "ending"; conversation: IConversation }
+  | { status: "ended"; conversation: IConversation | null }
+  | {
+      status: "error";
+      conversation: IConversation | null;
+      error: ConversationError;
+    };
+
+export type ConversationStatusName = ConversationState["status"];
+
+export type ConversationEvent =
+  | { type: "START" }
+  | { type: "CREATED"; conversation: IConversation }
+  | { type: "JOINED" }
+  | { type: "CANCEL" }
+  | { type: "END" }
+  | { type: "ENDED" }
+  | { type: "FAIL"; stage: ConversationErrorStage; error: unknown }
+  | { type: "RESET" };
+
+export const initialConversationState: ConversationState = { status: "idle" };
+
+/** Events accepted in each state; anything else is ignored. */
+export const conversationTransitions: Record<
+  ConversationStatusName,
+  readonly ConversationEvent["type"][]
+> = {
+  idle: ["START"],
+  creating: ["CREATED", "CANCEL", "FAIL"],
+  joining: ["JOINED", "CANCEL", "FAIL"],
+  active: ["END", "FAIL"],
+  ending: ["ENDED", "FAIL"],
+  ended: ["START", "RESET"],
+  error: ["START", "RESET"],
+};
+
+export const canTransition = (
+  state: ConversationState,
+  event: ConversationEvent["type"],
+) => conversationTransitions[state.status].includes(event);
+
+const getConversation = (state: ConversationState) =>
+  "conversation" in state ? state.conversation : null;
+
+export const toConversationError = (
+  stage: ConversationErrorStage,
+  cause: unknown,
+): ConversationError => ({
+  stage,
+  cause,
+  message: cause instanceof Error ? cause.message : String(cause),
+});
+
+/**
+ * Pure reducer for the conversation lifecycle:
+ * idle → creating → joining → active → ending → ended, with error
+ * reachable from every in-flight state.
+ */
+export const conversationReducer = (
+  state: ConversationState,
+  event: ConversationEvent,
+): ConversationState => {
+  if (!canTransition(state, event.type)) return state;
+
+  switch (event.type) {
+    case "START":
+      return { status: "creating" };
+    case "CREATED":
+      return { status: "joining", conversation: event.conversation };
+    case "JOINED":
+      return state.status === "joining"
+        ? { status: "active", conversation: state.conversation }
+        : state;
+    case "CANCEL": {
+      // A created conversation still has to be ended on the API side
+      const conversation = getConversation(state);
+      return conversation
+        ? { status: "ending", conversation }
+        : { status: "ended", conversation: null };
+    }
+    case "END":
+      return state.status === "active"
+        ? { status: "ending", conversation: state.conversation }
+        : state;
+    case "ENDED":
+      return { status: "ended", conversation: getConversation(state) };
+    case "FAIL":
+      return {
+        status: "error",
+        conversation: getConversation(state),
+        error: toConversationError(event.stage, event.error),
+      };
+    case "RESET":
+      return initialConversationState;
+  }
+};
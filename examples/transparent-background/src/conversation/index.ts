@@ -0,0 +1,2 @@
+export * from "./conversationMachine";
+export * from "./useConversation";
@@ -0,0 +1,174 @@
+import { useDaily } from "@daily-co/daily-react";
+import { useCallback, useEffect, useReducer, useRef } from "react";
+import {
+  type CreateConversationOptions,
+  type TavusAuth,
+  createConversation,
+  endConversation,
+  getConversation,
+} from "../api";
+import { useSessionLifecycle } from "../session";
+import { ConversationStatus, type IConversation } from "../types";
+import {
+  canTransition,
+  conversationReducer,
+  initialConversationState,
+} from "./conversationMachine";
+
+/**
+ * Supplies the API token when a conversation starts, e.g. by fetching it
+ * from the host page's backend.
+ */
+export type TokenProvider = () => string | Promise<string>;
+
+/**
+ * Drives a Tavus conversation through the conversation state machine:
+ * creating it, joining the Daily call, and ending it on leave, cancel,
+ * call errors or tab close.
+ *
+ * With a `proxyUrl` every request goes through the token proxy and no
+ * token is needed.
+ */
+export const useConversation = ({
+  token,
+  proxyUrl,
+}: {
+  token?: string | TokenProvider;
+  proxyUrl?: string;
+}) => {
+  const daily = useDaily();
+  const [state, dispatch] = useReducer(
+    conversationReducer,
+    initialConversationState,
+  );
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const startControllerRef = useRef<AbortController | null>(null);
+  // How the current conversation was started, used to end it
+  const authRef = useRef<TavusAuth>("");
+  if (proxyUrl) {
+    authRef.current = { proxyUrl };
+  } else if (typeof token === "string") {
+    authRef.current = token;
+  }
+
+  const resolveAuth = async (): Promise<TavusAuth> => {
+    if (proxyUrl) return { proxyUrl };
+    return typeof token === "function" ? token() : token ?? "";
+  };
+
+  const lifecycle = useSessionLifecycle({
+    endConversation: (conversationId, { keepalive }) =>
+      endConversation(conversationId, authRef.current, { keepalive }),
+    // The token proxy only creates and ends conversations
+    getConversationStatus: async (conversationId) => {
+      const auth = authRef.current;
+      if (typeof auth !== "string") return null;
+      return (await getConversation(conversationId, auth)).status;
+    },
+    conversationId:
+      state.status === "active" ? state.conversation.conversation_id : null,
+    onEnded: (conversationId, callError) => {
+      if (callError) {
+        dispatch({ type: "FAIL", stage: "call", error: callError });
+        return;
+      }
+      dispatch({ type: "END" });
+      finishEnding(conversationId);
+    },
+  });
+
+  // Ending is deduplicated by the lifecycle, so every path can await it
+  const finishEnding = (conversationId: string) =>
+    lifecycle.end(conversationId).then(
+      () => dispatch({ type: "ENDED" }),
+      (error) => dispatch({ type: "FAIL", stage: "end", error }),
+    );
+
+  // Abort a pending start when the user navigates away or the app unmounts
+  useEffect(() => {
+    const abortStart = () => startControllerRef.current?.abort();
+    window.addEventListener("pagehide", abortStart);
+    return () => {
+      window.removeEventListener("pagehide", abortStart);
+      abortStart();
+    };
+  }, []);
+
+  const start = async (options?: CreateConversationOptions) => {
+    if (!daily || !(token || proxyUrl)) return;
+    if (!canTransition(stateRef.current, "START")) return;
+
+    const controller = new AbortController();
+    startControllerRef.current = controller;
+    dispatch({ type: "START" });
+
+    let created: IConversation | null = null;
+    try {
+      const auth = await resolveAuth();
+      authRef.current = auth;
+      // End conversations left behind by a closed or crashed tab, now that
+      // there is a complete token to end them with
+      lifecycle.sweep().catch(console.error);
+      created = await createConversation(auth, options, {
+        signal: controller.signal,
+      });
+      lifecycle.track(created.conversation_id);
+      if (created.status === ConversationStatus.ERROR) {
+        throw new Error(
+          `Conversation ${created.conversation_id} was created in an error state`,
+        );
+      }
+      dispatch({ type: "CREATED", conversation: created });
+      if (!controller.signal.aborted) {
+        await daily.join({ url: created.conversation_url });
+      }
+      if (controller.signal.aborted) {
+        // Cancelled after the conversation was created, so release it
+        daily.leave();
+        await finishEnding(created.conversation_id);
+      } else {
+        dispatch({ type: "JOINED" });
+      }
+    } catch (error) {
+      if (created) {
+        lifecycle.end(created.conversation_id).catch(console.error);
+      }
+      if (!controller.signal.aborted) {
+        dispatch({ type: "FAIL", stage: created ? "join" : "create", error });
+      }
+    } finally {
+      if (startControllerRef.current === controller) {
+        startControllerRef.current = null;
+      }
+    }
+  };
+
+  const cancel = useCallback(() => {
+    if (!canTransition(stateRef.current, "CANCEL")) return;
+    dispatch({ type: "CANCEL" });
+    startControllerRef.current?.abort();
+  }, []);
+
+  const leave = async () => {
+    const current = stateRef.current;
+    if (current.status !== "active") return;
+    dispatch({ type: "END" });
+    daily?.leave();
+    await finishEnding(current.conversation.conversation_id);
+  };
+
+  const reset = useCallback(() => dispatch({ type: "RESET" }), []);
+
+  return {
+    state,
+    start,
+    cancel,
+    leave,
+    reset,
+    isBusy:
+      state.status === "creating" ||
+      state.status === "joining" ||
+      state.status === "ending",
+  };
+};
@@ -0,0 +1,119 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
+import { Call } from "../App";
+import { DEFAULT_CONVERSATION_OPTIONS } from "../api";
+import {
+  type ConversationError,
+  type TokenProvider,
+  useConversation,
+} from "../conversation";
+import { useTranscript } from "../transcript";
+import type { IConversation } from "../types";
+import type { WidgetCorner } from "../widget";
+
+export type TavusReplicaProps = {
+  getToken?: TokenProvider;
+  /** Token proxy to go through instead; `getToken` is then unused. */
+  proxyUrl?: string;
+  /** Defaults to the stock demo persona. */
+  personaId?: string;
+  replicaId?: string;
+  keyColor?: string;
+  position?: WidgetCorner;
+  /** Label of the button that starts the call; hidden when empty. */
+  startLabel?: string;
+  onJoined?: (conversation: IConversation) => void;
+  onLeft?: (conversation: IConversation) => void;
+  onError?: (error: ConversationError) => void;
+};
+
+export type TavusReplicaHandle = {
+  start: () => Promise<void>;
+  leave: () => Promise<void>;
+};
+
+// The replica always talks in front of a green screen so it can be keyed
+const getConversationOptions = (personaId?: string, replicaId?: string) => ({
+  ...DEFAULT_CONVERSATION_OPTIONS,
+  persona_id: personaId || DEFAULT_CONVERSATION_OPTIONS.persona_id,
+  replica_id: replicaId || undefined,
+});
+
+/**
+ * The transparent replica call without the demo's token form: starts a
+ * conversation with the given persona and replica and reports its
+ * progress through callbacks.
+ */
+export const TavusReplica = forwardRef<TavusReplicaHandle, TavusReplicaProps>(
+  (
+    {
+      getToken,
+      proxyUrl,
+      personaId,
+      replicaId,
+      keyColor,
+      position,
+      startLabel = "Start video call",
+      onJoined,
+      onLeft,
+      onError,
+    },
+    ref,
+  ) => {
+    const { state, start, leave, isBusy } = useConversation({
+      token: getToken,
+      proxyUrl,
+    });
+    const transcript = useTranscript();
+    const callbacksRef = useRef({ onJoined, onLeft, onError });
+    callbacksRef.current = { onJoined, onLeft, onError };
+    const previousStatusRef = useRef(state.status);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        start: () => start(getConversationOptions(personaId, replicaId)),
+        leave,
+      }),
+      [start, leave, personaId, replicaId],
+    );
+
+    useEffect(() => {
+      const previousStatus = previousStatusRef.current;
+      previousStatusRef.current = state.status;
+      if (previousStatus === state.status) return;
+      const callbacks = callbacksRef.current;
+      if (state.status === "active") {
+        callbacks.onJoined?.(state.conversation);
+      } else if (previousStatus === "active" && "conversation" in state) {
+        if (state.conversation) callbacks.onLeft?.(state.conversation);
+      }
+      if (state.status === "error") {
+        callbacks.onError?.(state.error);
+      }
+    }, [state]);
+
+    if (state.status === "active") {
+      return (
+        <Call
+          onLeave={leave}
+          conversationId={state.conversation.conversation_id}
+          replicaId={state.conversation.replica_id}
+          transcript={transcript}
+          keyColor={keyColor}
+          position={position}
+        />
+      );
+    }
+    if (!startLabel) return null;
+    return (
+      <button
+        type="button"
+        className="tavus-replica-start"
+        disabled={isBusy}
+        onClick={() => start(getConversationOptions(personaId, replicaId))}
+      >
+        {startLabel}
+      </button>
+    );
+  },
+);
@@ -0,0 +1,148 @@
+import { DailyProvider } from "@daily-co/daily-react";
+import { createRef } from "react";
+import ReactDOM from "react-dom/client";
+import { isHexColor } from "../chromaKey";
+import type { ConversationError, TokenProvider } from "../conversation";
+import styles from "../index.css?inline";
+import type { IConversation } from "../types";
+import { WIDGET_CORNERS, type WidgetCorner } from "../widget";
+import { TavusReplica, type TavusReplicaHandle } from "./TavusReplica";
+import { MissingTokenProviderError } from "./errors";
+
+export type TavusReplicaEventMap = {
+  "tavus-joined": CustomEvent<{ conversation: IConversation }>;
+  "tavus-left": CustomEvent<{ conversation: IConversation }>;
+  "tavus-error": CustomEvent<{ error: ConversationError }>;
+};
+
+const isWidgetCorner = (value: string | null): value is WidgetCorner =>
+  WIDGET_CORNERS.includes(value as WidgetCorner);
+
+const toKeyColor = (value: string | null) =>
+  value !== null && isHexColor(value) ? value : undefined;
+
+/**
+ * `<tavus-replica>`: the transparent replica as a custom element, for pages
+ * that do not use React. The host provides the API token through the
+ * `getToken` property, so it never has to be written into the page:
+ *
+ * ```html
+ * <tavus-replica persona-id="p123" position="bottom-left"></tavus-replica>
+ * <script>
+ *   document.querySelector("tavus-replica").getToken = () =>
+ *     fetch("/tavus-token").then((response) => response.text());
+ * </script>
+ * ```
+ *
+ * Attributes: `persona-id`, `replica-id`, `key-color` (`#rrggbb`; the
+ * default key color is used when invalid), `position` (a widget
+ * corner), `proxy-url` (a token proxy to use instead of `getToken`) and
+ * `start-label` (empty to hide the built-in start button and call
+ * `start()` instead). It dispatches `tavus-joined`, `tavus-left` and
+ * `tavus-error` events.
+ */
+export class TavusReplicaElement extends HTMLElement {
+  static readonly observedAttributes = [
+    "persona-id",
+    "replica-id",
+    "key-color",
+    "position",
+    "proxy-url",
+    "start-label",
+  ];
+
+  /** Resolves the Tavus API token when a call starts. */
+  getToken: TokenProvider | null = null;
+
+  private root: ReactDOM.Root | null = null;
+  private readonly handleRef = createRef<TavusReplicaHandle>();
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: "open" });
+    const style = document.createElement("style");
+    style.textContent = styles;
+    shadow.append(style);
+  }
+
+  connectedCallback() {
+    this.root ??= ReactDOM.createRoot(this.shadowRoot as ShadowRoot);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    // Moving the element disconnects and reconnects it in the same task;
+    // only unmount, which ends the call, when it was actually removed
+    queueMicrotask(() => {
+      if (this.isConnected) return;
+      this.root?.unmount();
+      this.root = null;
+    });
+  }
+
+  attributeChangedCallback(
+    name: string,
+    _: string | null,
+    value: string | null,
+  ) {
+    if (name === "key-color" && value !== null && !toKeyColor(value)) {
+      console.warn(
+        `<tavus-replica> ignores key-color "${value}": expected a #rrggbb color`,
+      );
+    }
+    this.render();
+  }
+
+  /** Starts a call, as the built-in start button does. */
+  start() {
+    return this.handleRef.current?.start() ?? Promise.resolve();
+  }
+
+  leave() {
+    return this.handleRef.current?.leave() ?? Promise.resolve();
+  }
+
+  private emit<K extends keyof TavusReplicaEventMap>(
+    type: K,
+    detail: TavusReplicaEventMap[K]["detail"],
+  ) {
+    this.dispatchEvent(
+      new CustomEvent(type, { detail, bubbles: true, composed: true }),
+    );
+  }
+
+  private readonly resolveToken = () => {
+    if (!this.getToken) throw new MissingTokenProviderError();
+    return this.getToken();
+  };
+
+  private render() {
+    if (!this.root) return;
+    const position = this.getAttribute("position");
+    this.root.render(
+      <DailyProvider>
+        <TavusReplica
+          ref={this.handleRef}
+          getToken={this.resolveToken}
+          proxyUrl={this.getAttribute("proxy-url") ?? undefined}
+          personaId={this.getAttribute("persona-id") ?? undefined}
+          replicaId={this.getAttribute("replica-id") ?? undefined}
+          keyColor={toKeyColor(this.getAttribute("key-color"))}
+          position={isWidgetCorner(position) ? position : undefined}
+          startLabel={this.getAttribute("start-label") ?? undefined}
+          onJoined={(conversation) =>
+            this.emit("tavus-joined", { conversation })
+          }
+          onLeft={(conversation) => this.emit("tavus-left", { conversation })}
+          onError={(error) => this.emit("tavus-error", { error })}
+        />
+      </DailyProvider>,
+    );
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "tavus-replica": TavusReplicaElement;
+  }
+}
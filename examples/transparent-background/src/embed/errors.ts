@@ -0,0 +1,7 @@
+/** Thrown when a call starts before the host has set `getToken`. */
+export class MissingTokenProviderError extends Error {
+  constructor() {
+    super("Set getToken on <tavus-replica> before starting a call");
+    this.name = "MissingTokenProviderError";
+  }
+}
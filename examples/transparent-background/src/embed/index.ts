@@ -0,0 +1,3 @@
+export * from "./errors";
+export * from "./TavusReplica";
+export * from "./TavusReplicaElement";
@@ -0,0 +1,8 @@
+import { TavusReplicaElement } from "./TavusReplicaElement";
+
+// Entry of the embeddable bundle; a page may load it more than once
+if (!customElements.get("tavus-replica")) {
+  customElements.define("tavus-replica", TavusReplicaElement);
+}
+
+export * from ".";
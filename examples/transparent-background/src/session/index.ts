@@ -0,0 +1,2 @@
+export * from "./sessionLifecycle";
+export * from "./useSessionLifecycle";
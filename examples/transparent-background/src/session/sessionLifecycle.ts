@@ -0,0 +1,224 @@
+import { isTavusApiError } from "../api";
+import { ConversationStatus } from "../types";
+
+export const ACTIVE_CONVERSATIONS_STORAGE_KEY = "tavus:active-conversations";
+
+/** How often a tab refreshes the heartbeat of the conversations it owns. */
+const HEARTBEAT_INTERVAL_MS = 10_000;
+/**
+ * Conversations whose heartbeat is older than this are considered orphaned.
+ * Browsers run timers in background tabs as rarely as once a minute, or
+ * freeze them altogether, so this leaves a live owner plenty of slack.
+ */
+const ORPHAN_AFTER_MS = 10 * 60_000;
+/** Entries older than this are dropped even if ending them keeps failing. */
+const MAX_ENTRY_AGE_MS = 24 * 60 * 60 * 1000;
+
+type StoredConversation = {
+  conversationId: string;
+  tabId: string;
+  startedAt: number;
+  heartbeatAt: number;
+};
+
+export type EndConversationFn = (
+  conversationId: string,
+  options: { keepalive?: boolean },
+) => Promise<unknown>;
+
+/**
+ * Looks up the status of a conversation, or resolves with `null` when it
+ * can't be looked up, e.g. through a token proxy.
+ */
+export type GetConversationStatusFn = (
+  conversationId: string,
+) => Promise<ConversationStatus | null>;
+
+export type SessionLifecycleOptions = {
+  endConversation: EndConversationFn;
+  getConversationStatus?: GetConversationStatusFn;
+  storage?: Storage;
+  now?: () => number;
+};
+
+/**
+ * Tracks the conversations started by this tab and makes sure each one is
+ * ended exactly once: on leave, when the tab is closed, or, failing both,
+ * by a sweep of orphaned conversations on the next load.
+ *
+ * Active conversation ids are persisted in `storage` together with a
+ * heartbeat, so a sweep never ends a conversation still owned by another
+ * open tab.
+ */
+export const createSessionLifecycle = ({
+  endConversation,
+  getConversationStatus,
+  storage = window.localStorage,
+  now = Date.now,
+}: SessionLifecycleOptions) => {
+  const tabId = Math.random().toString(36).slice(2);
+  const pending = new Map<string, Promise<void>>();
+  let heartbeatId: number | null = null;
+
+  const read = (): StoredConversation[] => {
+    try {
+      const value = JSON.parse(
+        storage.getItem(ACTIVE_CONVERSATIONS_STORAGE_KEY) ?? "[]",
+      );
+      return Array.isArray(value) ? value : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (entries: StoredConversation[]) => {
+    if (entries.length > 0) {
+      storage.setItem(
+        ACTIVE_CONVERSATIONS_STORAGE_KEY,
+        JSON.stringify(entries),
+      );
+    } else {
+      storage.removeItem(ACTIVE_CONVERSATIONS_STORAGE_KEY);
+    }
+  };
+
+  const untrack = (conversationId: string) => {
+    write(read().filter((entry) => entry.conversationId !== conversationId));
+  };
+
+  /**
+   * Tells whether a failed end request failed because the conversation is
+   * already over. Only a 410 says so outright; a 400 or 404 may just as
+   * well mean the conversation belongs to another account or can't be
+   * reached, so the conversation is looked up to confirm.
+   */
+  const isAlreadyEnded = async (conversationId: string, error: unknown) => {
+    if (!isTavusApiError(error)) return false;
+    if (error.status === 410) return true;
+    if (![400, 404].includes(error.status) || !getConversationStatus) {
+      return false;
+    }
+    try {
+      const status = await getConversationStatus(conversationId);
+      return status === ConversationStatus.ENDED;
+    } catch {
+      return false;
+    }
+  };
+
+  const owned = () => read().filter((entry) => entry.tabId === tabId);
+
+  /**
+   * Refreshes the heartbeat of the conversations owned by this tab. Also
+   * called when the tab is hidden or shown, since timers can't be relied
+   * on while it's in the background.
+   */
+  const heartbeat = () => {
+    if (owned().length === 0) return;
+    const time = now();
+    write(
+      read().map((entry) =>
+        entry.tabId === tabId ? { ...entry, heartbeatAt: time } : entry,
+      ),
+    );
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatId !== null && owned().length === 0) {
+      clearInterval(heartbeatId);
+      heartbeatId = null;
+    }
+  };
+
+  const track = (conversationId: string) => {
+    const time = now();
+    write([
+      ...read().filter((entry) => entry.conversationId !== conversationId),
+      { conversationId, tabId, startedAt: time, heartbeatAt: time },
+    ]);
+    if (heartbeatId === null) {
+      heartbeatId = window.setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+    }
+  };
+
+  /**
+   * Ends the conversation, deduplicating concurrent calls. The entry stays
+   * persisted when ending fails so the next sweep can retry it.
+   */
+  const end = (
+    conversationId: string,
+    { keepalive = false }: { keepalive?: boolean } = {},
+  ) => {
+    const existing = pending.get(conversationId);
+    if (existing) return existing;
+
+    const promise = endConversation(conversationId, { keepalive })
+      .then(
+        () => untrack(conversationId),
+        async (error) => {
+          if (await isAlreadyEnded(conversationId, error)) {
+            untrack(conversationId);
+            return;
+          }
+          throw error;
+        },
+      )
+      .finally(() => {
+        pending.delete(conversationId);
+        stopHeartbeat();
+      });
+    pending.set(conversationId, promise);
+    return promise;
+  };
+
+  /**
+   * Fires keepalive end requests for every conversation owned by this tab.
+   * Meant for `pagehide`, where nothing can be awaited.
+   */
+  const endAllOnUnload = () => {
+    for (const { conversationId } of owned()) {
+      end(conversationId, { keepalive: true }).catch(() => {
+        // The entry stays persisted and is swept on the next load
+      });
+    }
+  };
+
+  /**
+   * Ends conversations left behind by closed or crashed tabs.
+   * Resolves with the ids that were ended.
+   */
+  const sweep = async () => {
+    const time = now();
+    const entries = read();
+    const expired = entries.filter(
+      (entry) => time - entry.startedAt > MAX_ENTRY_AGE_MS,
+    );
+    for (const { conversationId } of expired) {
+      untrack(conversationId);
+    }
+
+    const orphaned = entries.filter(
+      (entry) =>
+        entry.tabId !== tabId &&
+        time - entry.heartbeatAt > ORPHAN_AFTER_MS &&
+        !expired.includes(entry),
+    );
+    const results = await Promise.allSettled(
+      orphaned.map(({ conversationId }) => end(conversationId)),
+    );
+    return orphaned
+      .filter((_, index) => results[index].status === "fulfilled")
+      .map(({ conversationId }) => conversationId);
+  };
+
+  const dispose = () => {
+    if (heartbeatId !== null) {
+      clearInterval(heartbeatId);
+      heartbeatId = null;
+    }
+  };
+
+  return { track, end, heartbeat, endAllOnUnload, sweep, dispose };
+};
+
+export type SessionLifecycle = ReturnType<typeof createSessionLifecycle>;
@@ -0,0 +1,94 @@
+import { useDailyEvent } from "@daily-co/daily-react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  type EndConversationFn,
+  type GetConversationStatusFn,
+  createSessionLifecycle,
+} from "./sessionLifecycle";
+
+/**
+ * Binds a session lifecycle manager to the page and the Daily call.
+ * Heartbeats are also written whenever the tab is hidden or shown.
+ * The active conversation is ended when the tab is hidden for good, on
+ * unmount, and when Daily reports `left-meeting` or a fatal `error`;
+ * `onEnded` then lets the caller reset its own state, receiving the Daily
+ * error if any.
+ */
+export const useSessionLifecycle = ({
+  endConversation,
+  getConversationStatus,
+  conversationId,
+  onEnded,
+}: {
+  endConversation: EndConversationFn;
+  getConversationStatus?: GetConversationStatusFn;
+  conversationId: string | null;
+  onEnded?: (conversationId: string, callError?: unknown) => void;
+}) => {
+  // The manager lives for the whole mount; always call the latest callbacks
+  const endRef = useRef(endConversation);
+  endRef.current = endConversation;
+  const getStatusRef = useRef(getConversationStatus);
+  getStatusRef.current = getConversationStatus;
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+  const conversationIdRef = useRef(conversationId);
+  conversationIdRef.current = conversationId;
+
+  const lifecycle = useMemo(
+    () =>
+      createSessionLifecycle({
+        endConversation: (id, options) => endRef.current(id, options),
+        getConversationStatus: async (id) =>
+          getStatusRef.current ? getStatusRef.current(id) : null,
+      }),
+    [],
+  );
+
+  useEffect(() => {
+    // `beforeunload` can still be cancelled, so only `pagehide` ends calls
+    window.addEventListener("pagehide", lifecycle.endAllOnUnload);
+    document.addEventListener("visibilitychange", lifecycle.heartbeat);
+    return () => {
+      window.removeEventListener("pagehide", lifecycle.endAllOnUnload);
+      document.removeEventListener("visibilitychange", lifecycle.heartbeat);
+      // The Daily listeners are gone by now, so `left-meeting` won't fire
+      const id = conversationIdRef.current;
+      if (id) {
+        lifecycle.end(id, { keepalive: true }).catch((error) => {
+          console.error("Failed to end conversation:", error);
+        });
+      }
+      lifecycle.dispose();
+    };
+  }, [lifecycle]);
+
+  const endActive = useCallback(
+    (callError?: unknown) => {
+      const id = conversationIdRef.current;
+      if (!id) return;
+      lifecycle
+        .end(id)
+        .catch((error) => console.error("Failed to end conversation:", error));
+      onEndedRef.current?.(id, callError);
+    },
+    [lifecycle],
+  );
+
+  useDailyEvent(
+    "left-meeting",
+    useCallback(() => endActive(), [endActive]),
+  );
+  useDailyEvent(
+    "error",
+    useCallback(
+      (event) => {
+        console.error("Daily call error:", event?.errorMsg);
+        endActive(new Error(event?.errorMsg ?? "Daily call error"));
+      },
+      [endActive],
+    ),
+  );
+
+  return lifecycle;
+};
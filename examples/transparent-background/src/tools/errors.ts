@@ -0,0 +1,39 @@
+/** The replica called a tool the app has not registered. */
+export class ToolNotFoundError extends Error {
+  readonly toolName: string;
+
+  constructor(toolName: string) {
+    super(`No tool named "${toolName}" is registered`);
+    this.name = "ToolNotFoundError";
+    this.toolName = toolName;
+  }
+}
+
+/**
+ * The arguments of a tool call are not valid JSON or do not match the
+ * tool's parameter schema. `issues` lists every problem found.
+ */
+export class ToolArgumentsError extends Error {
+  readonly toolName: string;
+  readonly issues: string[];
+
+  constructor(toolName: string, issues: string[]) {
+    super(`Invalid arguments for tool "${toolName}": ${issues.join("; ")}`);
+    this.name = "ToolArgumentsError";
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+/** A tool handler did not settle within its timeout. */
+export class ToolTimeoutError extends Error {
+  readonly toolName: string;
+  readonly timeoutMs: number;
+
+  constructor(toolName: string, timeoutMs: number) {
+    super(`Tool "${toolName}" timed out after ${timeoutMs}ms`);
+    this.name = "ToolTimeoutError";
+    this.toolName = toolName;
+    this.timeoutMs = timeoutMs;
+  }
+}
@@ -0,0 +1,54 @@
+import type { ReplicaBackground } from "../chromaKey";
+import { defineTool } from "./toolRegistry";
+
+/*
+ * Tools the example registers during a call. The persona must declare them
+ * too, e.g. with the output of `registry.getDefinitions()`.
+ */
+
+export const getCurrentTimeTool = defineTool({
+  name: "get_current_time",
+  description: "Returns the user's current local date and time.",
+  parameters: {
+    type: "object",
+    properties: {
+      timeZone: {
+        type: "string",
+        description:
+          "IANA time zone such as Europe/Paris; defaults to the user's",
+      },
+    },
+  },
+  // An unknown time zone throws a RangeError, reported back as a failure
+  handler: ({ timeZone }) =>
+    new Date().toLocaleString("en-US", {
+      timeZone,
+      dateStyle: "full",
+      timeStyle: "short",
+    }),
+});
+
+/** Lets the replica change the color behind it. */
+export const createBackgroundColorTool = (
+  onChange: (background: ReplicaBackground) => void,
+) =>
+  defineTool({
+    name: "set_background_color",
+    description: "Changes the solid color shown behind the replica.",
+    parameters: {
+      type: "object",
+      properties: {
+        color: {
+          type: "string",
+          description: "Hex color such as #1e3a8a",
+          pattern: "^#[0-9a-fA-F]{6}$",
+        },
+      },
+      required: ["color"],
+      additionalProperties: false,
+    },
+    handler: ({ color }) => {
+      onChange({ type: "color", color });
+      return { color };
+    },
+  });
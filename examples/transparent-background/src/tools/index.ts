@@ -0,0 +1,5 @@
+export * from "./errors";
+export * from "./exampleTools";
+export * from "./jsonSchema";
+export * from "./toolRegistry";
+export * from "./useToolCalls";
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { type JsonSchema, validateJsonSchema } from "./jsonSchema";
+
+const weatherSchema = {
+  type: "object",
+  properties: {
+    city: { type: "string", minLength: 1 },
+    days: { type: "integer", minimum: 1, maximum: 7 },
+    unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+  },
+  required: ["city"],
+  additionalProperties: false,
+} as const satisfies JsonSchema;
+
+describe("validateJsonSchema", () => {
+  it("accepts valid values", () => {
+    expect(
+      validateJsonSchema(weatherSchema, { city: "Paris", days: 3 }),
+    ).toEqual([]);
+  });
+
+  it("reports missing required properties", () => {
+    expect(validateJsonSchema(weatherSchema, { days: 3 })).toEqual([
+      "arguments.city is required",
+    ]);
+  });
+
+  it("rejects additional properties when they aren't allowed", () => {
+    expect(
+      validateJsonSchema(weatherSchema, { city: "Paris", country: "FR" }),
+    ).toEqual(["arguments.country is not allowed"]);
+  });
+
+  it("allows additional properties by default", () => {
+    expect(
+      validateJsonSchema(
+        { type: "object", properties: { city: { type: "string" } } },
+        { city: "Paris", country: "FR" },
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports every problem with its path", () => {
+    expect(
+      validateJsonSchema(weatherSchema, { days: 10, unit: "kelvin" }),
+    ).toEqual([
+      "arguments.city is required",
+      "arguments.days must be at most 7",
+      "arguments.unit must be one of celsius, fahrenheit",
+    ]);
+  });
+
+  it("checks strings against a pattern", () => {
+    const schema: JsonSchema = { type: "string", pattern: "^#[0-9a-f]{6}$" };
+
+    expect(validateJsonSchema(schema, "#03ff9c")).toEqual([]);
+    expect(validateJsonSchema(schema, "green")).toEqual([
+      "arguments must match ^#[0-9a-f]{6}$",
+    ]);
+  });
+
+  it("only accepts whole numbers for integers", () => {
+    const schema: JsonSchema = { type: "integer" };
+
+    expect(validateJsonSchema(schema, 3)).toEqual([]);
+    expect(validateJsonSchema(schema, 3.5)).toEqual([
+      "arguments must be an integer, got number",
+    ]);
+    expect(validateJsonSchema(schema, "3")).toEqual([
+      "arguments must be an integer, got string",
+    ]);
+  });
+
+  it("rejects numbers that aren't finite", () => {
+    expect(validateJsonSchema({ type: "number" }, Number.NaN)).toEqual([
+      "arguments must be a number, got number",
+    ]);
+  });
+
+  it("validates array items and length", () => {
+    const schema: JsonSchema = {
+      type: "array",
+      items: { type: "string" },
+      maxItems: 2,
+    };
+
+    expect(validateJsonSchema(schema, ["a", 1, "c"])).toEqual([
+      "arguments must have at most 2 items",
+      "arguments[1] must be a string, got number",
+    ]);
+  });
+
+  it("names the type it got", () => {
+    expect(validateJsonSchema(weatherSchema, null)).toEqual([
+      "arguments must be a object, got null",
+    ]);
+    expect(validateJsonSchema(weatherSchema, [])).toEqual([
+      "arguments must be a object, got array",
+    ]);
+  });
+});
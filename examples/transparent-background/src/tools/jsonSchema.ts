@@ -0,0 +1,188 @@
+/**
+ * The subset of JSON Schema that LLM function calling uses for tool
+ * parameters. Write schemas `as const` (or inline in `defineTool`) so the
+ * argument types can be inferred from them.
+ */
+export type JsonSchema =
+  | {
+      type: "string";
+      description?: string;
+      enum?: readonly string[];
+      minLength?: number;
+      maxLength?: number;
+      pattern?: string;
+    }
+  | {
+      type: "number" | "integer";
+      description?: string;
+      enum?: readonly number[];
+      minimum?: number;
+      maximum?: number;
+    }
+  | { type: "boolean"; description?: string }
+  | {
+      type: "array";
+      description?: string;
+      items?: JsonSchema;
+      minItems?: number;
+      maxItems?: number;
+    }
+  | {
+      type: "object";
+      description?: string;
+      properties?: { readonly [name: string]: JsonSchema };
+      required?: readonly string[];
+      additionalProperties?: boolean;
+    };
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferObject<
+  Properties extends { readonly [name: string]: JsonSchema },
+  Required,
+> = Simplify<
+  {
+    -readonly [K in keyof Properties as K extends Required
+      ? K
+      : never]: InferJsonSchema<Properties[K]>;
+  } & {
+    -readonly [K in keyof Properties as K extends Required
+      ? never
+      : K]?: InferJsonSchema<Properties[K]>;
+  }
+>;
+
+/** The TypeScript type of the values a schema accepts. */
+export type InferJsonSchema<S> = S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: "string" }
+    ? string
+    : S extends { type: "number" | "integer" }
+      ? number
+      : S extends { type: "boolean" }
+        ? boolean
+        : S extends { type: "array"; items: infer Items }
+          ? InferJsonSchema<Items>[]
+          : S extends { type: "array" }
+            ? unknown[]
+            : S extends {
+                  type: "object";
+                  properties: infer Properties extends {
+                    readonly [name: string]: JsonSchema;
+                  };
+                }
+              ? InferObject<
+                  Properties,
+                  S extends { required: readonly (infer R)[] } ? R : never
+                >
+              : S extends { type: "object" }
+                ? Record<string, unknown>
+                : unknown;
+
+const describeType = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+/**
+ * Checks `value` against `schema` and returns every problem found, one
+ * message per offending field; empty when the value is valid.
+ */
+export const validateJsonSchema = (
+  schema: JsonSchema,
+  value: unknown,
+  path = "arguments",
+): string[] => {
+  const typeIssue = `${path} must be ${
+    schema.type === "integer" ? "an integer" : `a ${schema.type}`
+  }, got ${describeType(value)}`;
+
+  switch (schema.type) {
+    case "string": {
+      if (typeof value !== "string") return [typeIssue];
+      const issues: string[] = [];
+      if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path} must be one of ${schema.enum.join(", ")}`);
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issues.push(`${path} must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        issues.push(`${path} must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        issues.push(`${path} must match ${schema.pattern}`);
+      }
+      return issues;
+    }
+    case "number":
+    case "integer": {
+      if (
+        typeof value !== "number" ||
+        !Number.isFinite(value) ||
+        (schema.type === "integer" && !Number.isInteger(value))
+      ) {
+        return [typeIssue];
+      }
+      const issues: string[] = [];
+      if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path} must be one of ${schema.enum.join(", ")}`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push(`${path} must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push(`${path} must be at most ${schema.maximum}`);
+      }
+      return issues;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? [] : [typeIssue];
+    case "array": {
+      if (!Array.isArray(value)) return [typeIssue];
+      const issues: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      const { items } = schema;
+      if (items) {
+        value.forEach((item, index) => {
+          issues.push(...validateJsonSchema(items, item, `${path}[${index}]`));
+        });
+      }
+      return issues;
+    }
+    case "object": {
+      if (describeType(value) !== "object") return [typeIssue];
+      const record = value as Record<string, unknown>;
+      const { properties = {}, required = [] } = schema;
+      const issues: string[] = [];
+      for (const name of required) {
+        if (record[name] === undefined) {
+          issues.push(`${path}.${name} is required`);
+        }
+      }
+      for (const [name, propertyValue] of Object.entries(record)) {
+        const propertySchema = properties[name];
+        if (propertySchema) {
+          if (propertyValue !== undefined) {
+            issues.push(
+              ...validateJsonSchema(
+                propertySchema,
+                propertyValue,
+                `${path}.${name}`,
+              ),
+            );
+          }
+        } else if (schema.additionalProperties === false) {
+          issues.push(`${path}.${name} is not allowed`);
+        }
+      }
+      return issues;
+    }
+  }
+};
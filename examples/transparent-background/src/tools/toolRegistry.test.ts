@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ToolArgumentsError,
+  ToolNotFoundError,
+  ToolTimeoutError,
+} from "./errors";
+import { createToolRegistry, defineTool } from "./toolRegistry";
+
+const echoTool = defineTool({
+  name: "echo",
+  description: "Repeats a message",
+  parameters: {
+    type: "object",
+    properties: { message: { type: "string" } },
+    required: ["message"],
+  },
+  handler: ({ message }) => message,
+});
+
+describe("createToolRegistry", () => {
+  const log = vi.fn();
+
+  beforeEach(() => {
+    log.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs a tool with its parsed arguments", async () => {
+    const registry = createToolRegistry({ log });
+    registry.register(echoTool);
+
+    const invocation = await registry.invoke("echo", '{"message":"hi"}');
+
+    expect(invocation).toMatchObject({
+      name: "echo",
+      arguments: { message: "hi" },
+      status: "success",
+      result: "hi",
+    });
+    expect(log).toHaveBeenCalledWith(invocation);
+  });
+
+  it("reports tools that aren't registered", async () => {
+    const registry = createToolRegistry({ log });
+
+    const invocation = await registry.invoke("missing", "{}");
+
+    expect(invocation).toMatchObject({
+      status: "error",
+      error: expect.any(ToolNotFoundError),
+    });
+  });
+
+  it("reports arguments that aren't valid JSON", async () => {
+    const registry = createToolRegistry({ log });
+    const handler = vi.fn();
+    registry.register({ ...echoTool, handler });
+
+    const invocation = await registry.invoke("echo", "{message:");
+
+    expect(invocation).toMatchObject({
+      status: "error",
+      arguments: "{message:",
+      error: expect.any(ToolArgumentsError),
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("reports arguments that don't match the schema", async () => {
+    const registry = createToolRegistry({ log });
+    registry.register(echoTool);
+
+    const invocation = await registry.invoke("echo", "{}");
+
+    expect(invocation).toMatchObject({
+      status: "error",
+      error: { issues: ["arguments.message is required"] },
+    });
+  });
+
+  it("reports errors thrown by the handler", async () => {
+    const registry = createToolRegistry({ log });
+    registry.register({
+      ...echoTool,
+      handler: () => {
+        throw new Error("Handler failed");
+      },
+    });
+
+    const invocation = await registry.invoke("echo", { message: "hi" });
+
+    expect(invocation).toMatchObject({
+      status: "error",
+      error: { message: "Handler failed" },
+    });
+  });
+
+  it("times out handlers that never settle and aborts their signal", async () => {
+    vi.useFakeTimers();
+    const registry = createToolRegistry({ log, defaultTimeoutMs: 1000 });
+    let signal: AbortSignal | undefined;
+    registry.register({
+      ...echoTool,
+      handler: (_, context) => {
+        signal = context.signal;
+        return new Promise(() => {
+          // Never settles
+        });
+      },
+    });
+
+    const invocation = registry.invoke("echo", { message: "hi" });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(invocation).resolves.toMatchObject({
+      status: "error",
+      error: expect.any(ToolTimeoutError),
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("prefers a tool's own timeout", async () => {
+    vi.useFakeTimers();
+    const registry = createToolRegistry({ log, defaultTimeoutMs: 1000 });
+    registry.register({
+      ...echoTool,
+      timeoutMs: 5000,
+      handler: () => new Promise((resolve) => setTimeout(resolve, 3000, "ok")),
+    });
+
+    const invocation = registry.invoke("echo", { message: "hi" });
+    await vi.advanceTimersByTimeAsync(3000);
+
+    await expect(invocation).resolves.toMatchObject({
+      status: "success",
+      result: "ok",
+    });
+  });
+
+  it("only unregisters the tool it registered", async () => {
+    const registry = createToolRegistry({ log });
+    const unregister = registry.register(echoTool);
+    registry.register({ ...echoTool, handler: () => "replacement" });
+
+    unregister();
+
+    expect(registry.has("echo")).toBe(true);
+    await expect(
+      registry.invoke("echo", { message: "hi" }),
+    ).resolves.toMatchObject({ result: "replacement" });
+  });
+});
@@ -0,0 +1,182 @@
+import { withTimeout } from "../api";
+import {
+  ToolArgumentsError,
+  ToolNotFoundError,
+  ToolTimeoutError,
+} from "./errors";
+import {
+  type InferJsonSchema,
+  type JsonSchema,
+  validateJsonSchema,
+} from "./jsonSchema";
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10_000;
+
+export type ToolContext = {
+  /** Aborted when the call times out or the caller gives up on it. */
+  signal: AbortSignal;
+};
+
+export type Tool<S extends JsonSchema = JsonSchema> = {
+  /** Must match the tool name configured on the persona. */
+  name: string;
+  description: string;
+  parameters: S;
+  /** Overrides the registry's default timeout. */
+  timeoutMs?: number;
+  // Method syntax, so tools with any parameters fit in one registry
+  handler(args: InferJsonSchema<S>, context: ToolContext): unknown;
+};
+
+/** Identity helper that infers the handler's argument type. */
+export const defineTool = <const S extends JsonSchema>(tool: Tool<S>) => tool;
+
+/** Record of a single tool call, successful or not. */
+export type ToolInvocation = {
+  id: number;
+  name: string;
+  /** Parsed arguments, or the raw ones when they could not be parsed. */
+  arguments: unknown;
+  startedAt: number;
+  durationMs: number;
+} & (
+  | { status: "success"; result: unknown }
+  | { status: "error"; error: Error }
+);
+
+/** Definition in the function calling format of a persona's LLM layer. */
+export const toToolDefinition = ({ name, description, parameters }: Tool) =>
+  ({
+    type: "function",
+    function: { name, description, parameters },
+  }) as const;
+
+/** Logs a tool call to the console with its arguments and outcome. */
+export const logToolInvocation = (invocation: ToolInvocation) => {
+  const { id, name, status, durationMs } = invocation;
+  const label = `Tool call #${id} ${name}: ${status} in ${durationMs}ms`;
+  if (invocation.status === "error") {
+    console.warn(label, {
+      arguments: invocation.arguments,
+      error: invocation.error,
+    });
+  } else {
+    console.debug(label, {
+      arguments: invocation.arguments,
+      result: invocation.result,
+    });
+  }
+};
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+const parseArguments = (tool: Tool, rawArguments: unknown) => {
+  let args = rawArguments;
+  if (typeof rawArguments === "string") {
+    try {
+      args = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+    } catch {
+      throw new ToolArgumentsError(tool.name, ["arguments are not valid JSON"]);
+    }
+  }
+  const issues = validateJsonSchema(tool.parameters, args);
+  if (issues.length > 0) {
+    throw new ToolArgumentsError(tool.name, issues);
+  }
+  return args;
+};
+
+/**
+ * Registry of the client-side functions the replica can call. `invoke`
+ * looks a tool up by name, validates the arguments against its JSON
+ * schema and runs it with a timeout. It never throws: the outcome is
+ * returned as a `ToolInvocation` and passed to `log`.
+ */
+export const createToolRegistry = ({
+  defaultTimeoutMs = DEFAULT_TOOL_TIMEOUT_MS,
+  log = logToolInvocation,
+}: {
+  defaultTimeoutMs?: number;
+  log?: (invocation: ToolInvocation) => void;
+} = {}) => {
+  const tools = new Map<string, Tool>();
+  let nextId = 1;
+
+  /** Adds a tool, replacing any with the same name; returns its removal. */
+  const register = (tool: Tool) => {
+    tools.set(tool.name, tool);
+    return () => {
+      if (tools.get(tool.name) === tool) tools.delete(tool.name);
+    };
+  };
+
+  const run = async (tool: Tool, args: unknown, signal?: AbortSignal) => {
+    const timeoutMs = tool.timeoutMs ?? defaultTimeoutMs;
+    const timeout = withTimeout(signal, timeoutMs);
+    const getAbortError = () =>
+      timeout.timedOut()
+        ? new ToolTimeoutError(tool.name, timeoutMs)
+        : timeout.signal.reason;
+    try {
+      if (timeout.signal.aborted) throw getAbortError();
+      return await new Promise((resolve, reject) => {
+        timeout.signal.addEventListener(
+          "abort",
+          () => reject(getAbortError()),
+          { once: true },
+        );
+        Promise.resolve()
+          .then(() =>
+            tool.handler(args as InferJsonSchema<JsonSchema>, {
+              signal: timeout.signal,
+            }),
+          )
+          .then(resolve, reject);
+      });
+    } finally {
+      timeout.clear();
+    }
+  };
+
+  const invoke = async (
+    name: string,
+    rawArguments: unknown,
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<ToolInvocation> => {
+    const id = nextId++;
+    const startedAt = Date.now();
+    let args = rawArguments;
+    let outcome:
+      | { status: "success"; result: unknown }
+      | { status: "error"; error: Error };
+    try {
+      const tool = tools.get(name);
+      if (!tool) throw new ToolNotFoundError(name);
+      args = parseArguments(tool, rawArguments);
+      outcome = { status: "success", result: await run(tool, args, signal) };
+    } catch (error) {
+      outcome = { status: "error", error: toError(error) };
+    }
+    const invocation: ToolInvocation = {
+      id,
+      name,
+      arguments: args,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      ...outcome,
+    };
+    log(invocation);
+    return invocation;
+  };
+
+  return {
+    register,
+    has: (name: string) => tools.has(name),
+    /** Definitions of every registered tool, to configure the persona. */
+    getDefinitions: () => [...tools.values()].map(toToolDefinition),
+    invoke,
+  };
+};
+
+export type ToolRegistry = ReturnType<typeof createToolRegistry>;
@@ -0,0 +1,63 @@
+import { useAppMessage } from "@daily-co/daily-react";
+import { useCallback, useEffect, useRef } from "react";
+import { type ConversationActions, parseConversationAppEvent } from "../call";
+import type { ToolInvocation, ToolRegistry } from "./toolRegistry";
+
+/**
+ * How results reach the replica: `respond` has it answer with the result
+ * right away, `context` only adds it to what its LLM knows.
+ */
+export type ToolResultDelivery = "respond" | "context";
+
+export const formatToolResult = (invocation: ToolInvocation) =>
+  invocation.status === "success"
+    ? `Result of the ${invocation.name} tool: ${JSON.stringify(
+        invocation.result ?? null,
+      )}`
+    : `The ${invocation.name} tool failed: ${invocation.error.message}`;
+
+/**
+ * Dispatches the conversation's tool calls to `registry` and sends each
+ * result or error back into the conversation. Calls still running when
+ * the component unmounts are aborted and their results dropped.
+ */
+export const useToolCalls = ({
+  registry,
+  actions,
+  delivery = "respond",
+}: {
+  registry: ToolRegistry;
+  actions: ConversationActions;
+  delivery?: ToolResultDelivery;
+}) => {
+  const latestRef = useRef({ registry, actions, delivery });
+  latestRef.current = { registry, actions, delivery };
+  const controllerRef = useRef(new AbortController());
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  useAppMessage({
+    onAppMessage: useCallback(({ data }: { data: unknown }) => {
+      const event = parseConversationAppEvent(data);
+      if (event?.event_type !== "conversation.tool_call") return;
+      const { signal } = controllerRef.current;
+      const { name, arguments: args } = event.properties;
+      latestRef.current.registry
+        .invoke(name, args, { signal })
+        .then((invocation) => {
+          if (signal.aborted) return;
+          const { actions, delivery } = latestRef.current;
+          const message = formatToolResult(invocation);
+          if (delivery === "respond") {
+            actions.respond(message);
+          } else {
+            actions.appendContext(message);
+          }
+        });
+    }, []),
+  });
+};
@@ -0,0 +1,124 @@
+import type { ConversationRole } from "../call";
+
+export type TranscriptEntry = {
+  id: number;
+  speaker: ConversationRole;
+  text: string;
+  /** When the utterance arrived, in milliseconds since the epoch. */
+  timestamp: number;
+  /** Milliseconds between the start of the call and the utterance. */
+  offsetMs: number;
+};
+
+export type Transcript = {
+  /** When the call was joined, in milliseconds since the epoch. */
+  startedAt: number;
+  entries: TranscriptEntry[];
+};
+
+export type TranscriptFormat = "json" | "txt" | "vtt";
+
+export const SPEAKER_LABELS: Record<ConversationRole, string> = {
+  user: "You",
+  replica: "Replica",
+};
+
+// Utterances only arrive once complete, so how long one lasted is
+// estimated from its length at a typical speaking rate
+const MS_PER_WORD = 400;
+const MIN_UTTERANCE_MS = 1500;
+
+export const estimateUtteranceDuration = (text: string) =>
+  Math.max(MIN_UTTERANCE_MS, text.split(/\s+/).length * MS_PER_WORD);
+
+const pad = (value: number, length = 2) =>
+  String(Math.floor(value)).padStart(length, "0");
+
+/** Formats an offset as `m:ss`, or `h:mm:ss` past the first hour. */
+export const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, ms) / 1000;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`;
+};
+
+const formatVttTime = (ms: number) => {
+  const total = Math.max(0, Math.round(ms));
+  return `${pad(total / 3_600_000)}:${pad((total / 60_000) % 60)}:${pad(
+    (total / 1000) % 60,
+  )}.${pad(total % 1000, 3)}`;
+};
+
+const escapeVttText = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const toTranscriptJson = ({ startedAt, entries }: Transcript) =>
+  JSON.stringify(
+    {
+      startedAt: new Date(startedAt).toISOString(),
+      entries: entries.map(({ speaker, text, timestamp, offsetMs }) => ({
+        speaker,
+        text,
+        timestamp: new Date(timestamp).toISOString(),
+        offsetMs,
+      })),
+    },
+    null,
+    2,
+  );
+
+export const toTranscriptText = ({ entries }: Transcript) =>
+  entries
+    .map(
+      ({ speaker, text, offsetMs }) =>
+        `[${formatOffset(offsetMs)}] ${SPEAKER_LABELS[speaker]}: ${text}\n`,
+    )
+    .join("");
+
+/**
+ * WebVTT captions with one voice-tagged cue per utterance. Cues end at the
+ * estimated end of the utterance, or when the next one starts.
+ */
+export const toWebVtt = ({ entries }: Transcript) => {
+  const cues = entries.map(({ speaker, text, offsetMs }, index) => {
+    const next = entries[index + 1];
+    const estimatedEnd = offsetMs + estimateUtteranceDuration(text);
+    const end = Math.max(
+      offsetMs + 1,
+      next ? Math.min(estimatedEnd, next.offsetMs) : estimatedEnd,
+    );
+    return `${index + 1}\n${formatVttTime(offsetMs)} --> ${formatVttTime(
+      end,
+    )}\n<v ${SPEAKER_LABELS[speaker]}>${escapeVttText(text)}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+};
+
+const transcriptFormats: Record<
+  TranscriptFormat,
+  { mimeType: string; serialize: (transcript: Transcript) => string }
+> = {
+  json: { mimeType: "application/json", serialize: toTranscriptJson },
+  txt: { mimeType: "text/plain", serialize: toTranscriptText },
+  vtt: { mimeType: "text/vtt", serialize: toWebVtt },
+};
+
+/** Saves the transcript as `transcript-<date>.<format>`. */
+export const downloadTranscript = (
+  transcript: Transcript,
+  format: TranscriptFormat,
+) => {
+  const { mimeType, serialize } = transcriptFormats[format];
+  const url = URL.createObjectURL(
+    new Blob([serialize(transcript)], { type: mimeType }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `transcript-${new Date(transcript.startedAt)
+    .toISOString()
+    .replace(/[:.]/g, "-")}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,47 @@
+import { useAppMessage, useDailyEvent } from "@daily-co/daily-react";
+import { useCallback, useState } from "react";
+import { isUtteranceEvent } from "../call";
+import type { Transcript } from "./transcript";
+
+const createTranscript = (): Transcript => ({
+  startedAt: Date.now(),
+  entries: [],
+});
+
+/**
+ * Collects the utterances of the user and the replica from the
+ * conversation's app-messages. A new transcript starts on every join and
+ * the last one is kept after leaving, so it can still be exported.
+ */
+export const useTranscript = () => {
+  const [transcript, setTranscript] = useState(createTranscript);
+
+  useDailyEvent(
+    "joined-meeting",
+    useCallback(() => setTranscript(createTranscript()), []),
+  );
+
+  useAppMessage({
+    onAppMessage: useCallback(({ data }: { data: unknown }) => {
+      if (!isUtteranceEvent(data)) return;
+      const text = data.properties.speech.trim();
+      if (!text) return;
+      const timestamp = Date.now();
+      setTranscript((current) => ({
+        ...current,
+        entries: [
+          ...current.entries,
+          {
+            id: current.entries.length,
+            speaker: data.properties.role,
+            text,
+            timestamp,
+            offsetMs: timestamp - current.startedAt,
+          },
+        ],
+      }));
+    }, []),
+  });
+
+  return transcript;
+};
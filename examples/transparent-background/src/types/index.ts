@@ -13,3 +13,76 @@ export type IConversation = {
   persona_id: string | null;
   created_at: string;
 };
+
+export enum ReplicaStatus {
+  STARTED = "started",
+  COMPLETED = "completed",
+  ERROR = "error",
+}
+
+export type IReplica = {
+  replica_id: string;
+  replica_name: string;
+  status: ReplicaStatus;
+  training_progress: string;
+  thumbnail_video_url: string | null;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type IPersona = {
+  persona_id: string;
+  persona_name: string;
+  system_prompt: string;
+  context: string | null;
+  default_replica_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type IListResponse<T> = {
+  data: T[];
+  total_count: number;
+};
+
+export type IListParams = {
+  limit?: number;
+  page?: number;
+};
+
+export type IConversationProperties = {
+  /** Maximum call length in seconds. */
+  max_call_duration?: number;
+  /** Seconds to keep the call open after the participant leaves. */
+  participant_left_timeout?: number;
+  /** Seconds to wait for a participant to join before ending the call. */
+  participant_absent_timeout?: number;
+  language?: string;
+  enable_recording?: boolean;
+  apply_greenscreen?: boolean;
+};
+
+export type ICreateConversationRequest = {
+  replica_id?: string;
+  persona_id?: string;
+  conversation_name?: string;
+  conversational_context?: string;
+  custom_greeting?: string;
+  callback_url?: string;
+  properties?: IConversationProperties;
+};
+
+export type ICreateReplicaRequest = {
+  train_video_url: string;
+  replica_name?: string;
+  consent_video_url?: string;
+  callback_url?: string;
+};
+
+export type ICreatePersonaRequest = {
+  system_prompt: string;
+  persona_name?: string;
+  context?: string;
+  default_replica_id?: string;
+};
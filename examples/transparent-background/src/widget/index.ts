@@ -0,0 +1,2 @@
+export * from "./widgetLayout";
+export * from "./useWidgetLayout";
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  type Viewport,
+  type WidgetLayout,
+  clampWidgetLayout,
+  getViewport,
+  getWidgetPosition,
+  loadWidgetLayout,
+  saveWidgetLayout,
+} from "./widgetLayout";
+
+/**
+ * Layout of the floating widget, persisted in local storage and kept inside
+ * the viewport as the window resizes. `updateLayout` receives the current
+ * layout and viewport and returns the next layout.
+ */
+export const useWidgetLayout = () => {
+  const [layout, setLayout] = useState(loadWidgetLayout);
+  const [viewport, setViewport] = useState(getViewport);
+
+  useEffect(() => {
+    const handleResize = () => setViewport(getViewport());
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  const updateLayout = useCallback(
+    (update: (layout: WidgetLayout, viewport: Viewport) => WidgetLayout) => {
+      setLayout((current) => {
+        const next = update(current, getViewport());
+        saveWidgetLayout(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  const visibleLayout = clampWidgetLayout(layout, viewport);
+  return {
+    layout: visibleLayout,
+    position: getWidgetPosition(visibleLayout, viewport),
+    viewport,
+    updateLayout,
+  };
+};
@@ -0,0 +1,179 @@
+export type WidgetCorner =
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right";
+
+export const WIDGET_CORNERS: readonly WidgetCorner[] = [
+  "top-left",
+  "top-right",
+  "bottom-left",
+  "bottom-right",
+];
+
+export type WidgetLayout = {
+  /** Corner the widget is docked to, or null when placed freely. */
+  corner: WidgetCorner | null;
+  /** Left edge in CSS pixels, used when `corner` is null. */
+  x: number;
+  /** Top edge in CSS pixels, used when `corner` is null. */
+  y: number;
+  width: number;
+  height: number;
+  isMinimized: boolean;
+};
+
+export type Viewport = { width: number; height: number };
+
+/** Gap kept between a docked widget and the viewport edges. */
+export const WIDGET_MARGIN = 16;
+/** How close to a corner, in pixels, a dropped widget snaps to it. */
+export const SNAP_DISTANCE = 48;
+export const MIN_WIDGET_WIDTH = 240;
+export const MIN_WIDGET_HEIGHT = 160;
+
+export const DEFAULT_WIDGET_LAYOUT: WidgetLayout = {
+  corner: "bottom-right",
+  x: 0,
+  y: 0,
+  width: 480,
+  height: 320,
+  isMinimized: false,
+};
+
+const STORAGE_KEY = "tavus:widget-layout";
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), Math.max(min, max));
+
+export const getViewport = (): Viewport => ({
+  width: window.innerWidth,
+  height: window.innerHeight,
+});
+
+/** Top-left position of the widget, resolving docked corners. */
+export const getWidgetPosition = (layout: WidgetLayout, viewport: Viewport) => {
+  const { corner, width, height } = layout;
+  if (!corner) return { x: layout.x, y: layout.y };
+  return {
+    x: corner.endsWith("left")
+      ? WIDGET_MARGIN
+      : Math.max(0, viewport.width - width - WIDGET_MARGIN),
+    y: corner.startsWith("top")
+      ? WIDGET_MARGIN
+      : Math.max(0, viewport.height - height - WIDGET_MARGIN),
+  };
+};
+
+/** Keeps the widget above its minimum size and fully inside the viewport. */
+export const clampWidgetLayout = (
+  layout: WidgetLayout,
+  viewport: Viewport,
+): WidgetLayout => {
+  const width = clamp(layout.width, MIN_WIDGET_WIDTH, viewport.width);
+  const height = clamp(layout.height, MIN_WIDGET_HEIGHT, viewport.height);
+  return {
+    ...layout,
+    width,
+    height,
+    x: clamp(layout.x, 0, viewport.width - width),
+    y: clamp(layout.y, 0, viewport.height - height),
+  };
+};
+
+/**
+ * Docks the widget to the nearest corner when it was dropped within
+ * `SNAP_DISTANCE` of it; otherwise leaves it where it is.
+ */
+export const snapWidgetLayout = (
+  layout: WidgetLayout,
+  viewport: Viewport,
+): WidgetLayout => {
+  const { x, y } = getWidgetPosition(layout, viewport);
+  const right = viewport.width - x - layout.width;
+  const bottom = viewport.height - y - layout.height;
+  const isNearLeft = x <= SNAP_DISTANCE;
+  const isNearRight = right <= SNAP_DISTANCE;
+  const isNearTop = y <= SNAP_DISTANCE;
+  const isNearBottom = bottom <= SNAP_DISTANCE;
+
+  let corner: WidgetCorner | null = null;
+  if (isNearTop && isNearLeft) corner = "top-left";
+  else if (isNearTop && isNearRight) corner = "top-right";
+  else if (isNearBottom && isNearLeft) corner = "bottom-left";
+  else if (isNearBottom && isNearRight) corner = "bottom-right";
+  return { ...layout, x, y, corner };
+};
+
+/** Moves the widget by a delta, undocking it from its corner. */
+export const moveWidgetLayout = (
+  layout: WidgetLayout,
+  dx: number,
+  dy: number,
+  viewport: Viewport,
+): WidgetLayout => {
+  const { x, y } = getWidgetPosition(layout, viewport);
+  return clampWidgetLayout(
+    { ...layout, corner: null, x: x + dx, y: y + dy },
+    viewport,
+  );
+};
+
+/**
+ * Resizes the widget by a delta. Docked widgets grow away from their
+ * corner, free ones from their top-left.
+ */
+export const resizeWidgetLayout = (
+  layout: WidgetLayout,
+  dWidth: number,
+  dHeight: number,
+  viewport: Viewport,
+): WidgetLayout => {
+  const resized = clampWidgetLayout(
+    {
+      ...layout,
+      width: layout.width + dWidth,
+      height: layout.height + dHeight,
+    },
+    viewport,
+  );
+  return layout.corner ? { ...resized, x: layout.x, y: layout.y } : resized;
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Reads the saved widget layout, falling back to the defaults for
+ * anything missing or malformed.
+ */
+export const loadWidgetLayout = (): WidgetLayout => {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "null",
+    ) as Partial<WidgetLayout> | null;
+    if (!stored) return DEFAULT_WIDGET_LAYOUT;
+    const defaults = DEFAULT_WIDGET_LAYOUT;
+    return {
+      corner:
+        stored.corner === null ||
+        (stored.corner && WIDGET_CORNERS.includes(stored.corner))
+          ? stored.corner
+          : defaults.corner,
+      x: isFiniteNumber(stored.x) ? stored.x : defaults.x,
+      y: isFiniteNumber(stored.y) ? stored.y : defaults.y,
+      width: isFiniteNumber(stored.width) ? stored.width : defaults.width,
+      height: isFiniteNumber(stored.height) ? stored.height : defaults.height,
+      isMinimized:
+        typeof stored.isMinimized === "boolean"
+          ? stored.isMinimized
+          : defaults.isMinimized,
+    };
+  } catch {
+    return DEFAULT_WIDGET_LAYOUT;
+  }
+};
+
+export const saveWidgetLayout = (layout: WidgetLayout) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+};
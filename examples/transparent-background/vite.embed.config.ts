@@ -0,0 +1,18 @@
+import react from "@vitejs/plugin-react";
+import { defineConfig } from "vite";
+
+// Builds <tavus-replica> as a single script that any page can load
+export default defineConfig({
+  plugins: [react()],
+  // Library builds leave this to the consumer; the script runs as is
+  define: { "process.env.NODE_ENV": JSON.stringify("production") },
+  build: {
+    outDir: "dist/embed",
+    lib: {
+      entry: "src/embed/main.ts",
+      name: "TavusReplica",
+      formats: ["iife"],
+      fileName: () => "tavus-replica.js",
+    },
+  },
+});
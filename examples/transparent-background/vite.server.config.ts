@@ -0,0 +1,14 @@
+import { defineConfig } from "vite";
+
+// Bundles the token proxy in server/ into a single Node script
+export default defineConfig({
+  build: {
+    ssr: "server/index.ts",
+    outDir: "dist/server",
+    target: "node18",
+  },
+  ssr: {
+    // Node built-ins only, so the bundle runs without node_modules
+    noExternal: true,
+  },
+});